@@ -0,0 +1,67 @@
+// App shell cache. Vite fingerprints everything under /assets, so those are
+// cached once and served from cache; the HTML is network-first so a deploy is
+// picked up on the next online load. API responses are not cached here:
+// market data goes through the IndexedDB snapshot (src/lib/snapshot.ts).
+// Bump CACHE_VERSION to drop everything cached by an older worker.
+
+const CACHE_VERSION = 1
+const CACHE = `long-or-short-shell-v${CACHE_VERSION}`
+const STATIC_FILES = ['/favicon.svg', '/manifest.webmanifest']
+
+// The entry script and stylesheet are only known from the built index.html
+async function precacheShell() {
+  const cache = await caches.open(CACHE)
+  const response = await fetch('/', { cache: 'no-cache' })
+  if (!response.ok) throw new Error(`Could not load the app shell: HTTP ${response.status}`)
+  const html = await response.clone().text()
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1])
+  await cache.put('/', response)
+  await cache.addAll([...STATIC_FILES, ...assets])
+}
+
+async function cacheResponse(key, response) {
+  if (!response.ok) return
+  const cache = await caches.open(CACHE)
+  await cache.put(key, response)
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  // Every route renders the same index.html
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          event.waitUntil(cacheResponse('/', response.clone()))
+          return response
+        })
+        .catch(async () => (await caches.match('/')) ?? Response.error())
+    )
+    return
+  }
+
+  if (url.pathname.startsWith('/assets/') || STATIC_FILES.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request).then(cached => cached ?? fetch(request).then((response) => {
+        event.waitUntil(cacheResponse(request, response.clone()))
+        return response
+      }))
+    )
+  }
+})
@@ -0,0 +1,267 @@
+import { useState, type ChangeEvent } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Bell, Plus, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { useAlerts } from '@/hooks/use-alerts'
+import { useSettings } from '@/hooks/use-settings'
+import { useWatchlist } from '@/hooks/use-watchlist'
+import { notificationsSupported, requestNotificationPermission } from '@/lib/alerts/notify'
+import {
+  ALERT_KINDS,
+  ANY_COIN,
+  DEFAULT_ALERT_CONDITIONS,
+  describeAlert,
+  newAlertSchema,
+  type AlertKind,
+  type NewAlert
+} from '@/lib/alerts/rules'
+import type { CryptoData } from '@/types/crypto'
+
+// Number inputs report NaN when empty; zod then flags them as invalid
+const numberField = (onChange: (value: number) => void) =>
+  (event: ChangeEvent<HTMLInputElement>) => onChange(event.target.valueAsNumber)
+
+const INITIAL_ALERT: NewAlert = { symbol: ANY_COIN, condition: DEFAULT_ALERT_CONDITIONS['signal-flip'] }
+
+interface AlertsDialogProps {
+  coins: CryptoData[]
+}
+
+export function AlertsDialog({ coins }: AlertsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const { alerts, addAlert, setAlertEnabled, removeAlert } = useAlerts()
+  const { settings, updateSettings } = useSettings()
+  const { watchlist } = useWatchlist()
+
+  const form = useForm<NewAlert>({
+    resolver: zodResolver(newAlertSchema),
+    defaultValues: INITIAL_ALERT
+  })
+  const kind = form.watch('condition.kind')
+  const symbol = form.watch('symbol')
+  const activeCount = alerts.filter(alert => alert.enabled).length
+
+  // Start price alerts at the coin's current price rather than zero
+  const changeKind = (next: AlertKind) => {
+    const condition = DEFAULT_ALERT_CONDITIONS[next]
+    const price = coins.find(coin => coin.symbol.toUpperCase() === symbol)?.current_price
+    form.setValue('condition', condition.kind === 'price-cross' && price ? { ...condition, level: price } : condition)
+  }
+
+  const onSubmit = (values: NewAlert) => {
+    addAlert(values)
+    form.reset({ symbol: values.symbol, condition: DEFAULT_ALERT_CONDITIONS[values.condition.kind] })
+  }
+
+  const toggleNotifications = async (checked: boolean) => {
+    if (checked && !(await requestNotificationPermission())) {
+      toast.error('Browser notifications are blocked for this site')
+      return
+    }
+    updateSettings({ alertNotifications: checked })
+  }
+
+  const isCrossing = kind === 'price-cross' || kind === 'funding-cross'
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Alerts" className="relative">
+          <Bell />
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-accent px-1 text-[10px] font-bold text-accent-foreground">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Alerts</DialogTitle>
+          <DialogDescription>
+            Checked on every data refresh while the dashboard is open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="alert-notifications">Browser notifications</Label>
+            <Switch
+              id="alert-notifications"
+              checked={settings.alertNotifications}
+              disabled={!notificationsSupported()}
+              onCheckedChange={toggleNotifications}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="alert-sound">Sound</Label>
+            <Switch
+              id="alert-sound"
+              checked={settings.alertSound}
+              onCheckedChange={(checked) => updateSettings({ alertSound: checked })}
+            />
+          </div>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3 rounded-lg border border-border p-4">
+            <div className="grid grid-cols-2 gap-2">
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Coin</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ANY_COIN}>Any watched coin</SelectItem>
+                        {watchlist.map(coin => (
+                          <SelectItem key={coin.symbol} value={coin.symbol.toUpperCase()}>
+                            {coin.symbol.toUpperCase()} · {coin.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="condition.kind"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>When</FormLabel>
+                    <Select value={field.value} onValueChange={(value) => changeKind(value as AlertKind)}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(ALERT_KINDS) as AlertKind[]).map(key => (
+                          <SelectItem key={key} value={key}>{ALERT_KINDS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {isCrossing && (
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="condition.direction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Direction</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="above">Crosses above</SelectItem>
+                          <SelectItem value="below">Crosses below</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={kind === 'price-cross' ? 'condition.level' : 'condition.threshold'}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{kind === 'price-cross' ? 'Price ($)' : 'Funding rate (%)'}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {kind === 'percent-move' && (
+              <div className="grid grid-cols-2 gap-2">
+                <FormField
+                  control={form.control}
+                  name="condition.percent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Move (%), either way</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="condition.windowMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Within (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <Button type="submit" size="sm">
+              <Plus />
+              Add alert
+            </Button>
+          </form>
+        </Form>
+
+        <ScrollArea className="max-h-[40vh]">
+          {alerts.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No alerts yet.</p>
+          ) : (
+            <ul className="space-y-2 pr-4">
+              {alerts.map(alert => (
+                <li key={alert.id} className={`flex items-center gap-3 rounded-md border border-border p-2 ${alert.enabled ? '' : 'opacity-60'}`}>
+                  <div className="flex-1 text-sm">
+                    <p className="font-medium">{describeAlert(alert)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {alert.lastTriggeredAt
+                        ? `Last fired ${new Date(alert.lastTriggeredAt).toLocaleString()}`
+                        : 'Not fired yet'}
+                    </p>
+                  </div>
+                  <Switch
+                    checked={alert.enabled}
+                    onCheckedChange={(checked) => setAlertEnabled(alert.id, checked)}
+                    aria-label={alert.enabled ? 'Pause alert' : 'Resume alert'}
+                  />
+                  <Button variant="ghost" size="icon" aria-label="Delete alert" onClick={() => removeAlert(alert.id)}>
+                    <Trash2 />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,34 @@
+import { NavLink } from 'react-router-dom'
+import { ChartPie, FlaskConical, History, LayoutGrid, LayoutDashboard, ScanSearch, Wallet } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const NAV_ITEMS = [
+  { to: '/', label: 'Dashboard', icon: LayoutGrid },
+  { to: '/screener', label: 'Screener', icon: ScanSearch },
+  { to: '/heatmap', label: 'Heatmap', icon: LayoutDashboard },
+  { to: '/history', label: 'Signal History', icon: History },
+  { to: '/backtest', label: 'Backtest', icon: FlaskConical },
+  { to: '/paper', label: 'Paper Trading', icon: Wallet },
+  { to: '/portfolio', label: 'Portfolio', icon: ChartPie }
+]
+
+export function AppNav() {
+  return (
+    <nav className="flex flex-wrap items-center gap-1">
+      {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+        <NavLink
+          key={to}
+          to={to}
+          end={to === '/'}
+          className={({ isActive }) => cn(
+            'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+            isActive ? 'bg-accent/10 text-accent' : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </NavLink>
+      ))}
+    </nav>
+  )
+}
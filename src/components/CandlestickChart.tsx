@@ -0,0 +1,202 @@
+import { format } from 'date-fns'
+import { Bar, BarChart, CartesianGrid, Cell, ComposedChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart'
+import { formatPrice, formatVolume } from '@/lib/format'
+import type { CprLevels } from '@/lib/indicators/cpr'
+import type { Candle, CandleInterval } from '@/types/crypto'
+
+// Light mode needs darker shades to hold up against a white background;
+// high contrast pushes the candles to full saturation
+const chartConfig = {
+  up: {
+    label: 'Up',
+    theme: { light: 'hsl(142 71% 35%)', dark: 'hsl(142 71% 45%)', contrast: 'hsl(142 100% 26%)', darkContrast: 'hsl(142 100% 50%)' }
+  },
+  down: {
+    label: 'Down',
+    theme: { light: 'hsl(0 72% 50%)', dark: 'hsl(0 84% 60%)', contrast: 'hsl(0 100% 40%)', darkContrast: 'hsl(0 100% 62%)' }
+  },
+  band: { label: '24h range', theme: { light: 'hsl(217 91% 50%)', dark: 'hsl(217 91% 60%)' } },
+  ath: { label: 'ATH', theme: { light: 'hsl(40 96% 40%)', dark: 'hsl(45 93% 47%)' } },
+  cpr: { label: 'CPR', theme: { light: 'hsl(271 70% 50%)', dark: 'hsl(271 81% 66%)' } },
+  resistance: { label: 'Resistance', theme: { light: 'hsl(0 72% 50%)', dark: 'hsl(0 72% 65%)' } },
+  support: { label: 'Support', theme: { light: 'hsl(142 60% 35%)', dark: 'hsl(142 60% 55%)' } }
+} satisfies ChartConfig
+
+const CPR_LINES = [
+  { key: 'r3', label: 'R3', color: 'var(--color-resistance)' },
+  { key: 'r2', label: 'R2', color: 'var(--color-resistance)' },
+  { key: 'r1', label: 'R1', color: 'var(--color-resistance)' },
+  { key: 'tc', label: 'TC', color: 'var(--color-cpr)' },
+  { key: 'pivot', label: 'P', color: 'var(--color-cpr)' },
+  { key: 'bc', label: 'BC', color: 'var(--color-cpr)' },
+  { key: 's1', label: 'S1', color: 'var(--color-support)' },
+  { key: 's2', label: 'S2', color: 'var(--color-support)' },
+  { key: 's3', label: 'S3', color: 'var(--color-support)' }
+] as const
+
+interface CandlePoint extends Candle {
+  // Drives the floating bar from low to high that the candle shape is drawn in
+  range: [number, number]
+}
+
+interface CandleShapeProps {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  payload?: CandlePoint
+}
+
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) return null
+
+  const { open, close, high, low } = payload
+  const color = close >= open ? 'var(--color-up)' : 'var(--color-down)'
+  const pxPerUnit = high === low ? 0 : height / (high - low)
+  const bodyTop = y + (high - Math.max(open, close)) * pxPerUnit
+  const bodyHeight = Math.max(1, Math.abs(open - close) * pxPerUnit)
+  const center = x + width / 2
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  )
+}
+
+function CandleTooltip({ active, payload }: { active?: boolean; payload?: { payload: CandlePoint }[] }) {
+  if (!active || !payload?.length) return null
+  const candle = payload[0].payload
+
+  return (
+    <div className="grid min-w-[9rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{format(candle.time, 'MMM d, HH:mm')}</div>
+      {(['open', 'high', 'low', 'close'] as const).map((key) => (
+        <div key={key} className="flex justify-between gap-4">
+          <span className="capitalize text-muted-foreground">{key}</span>
+          <span className="font-mono tabular-nums">{formatPrice(candle[key])}</span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Volume</span>
+        <span className="font-mono tabular-nums">{formatVolume(candle.volume)}</span>
+      </div>
+    </div>
+  )
+}
+
+const TICK_FORMATS: Record<CandleInterval, string> = {
+  '1h': 'HH:mm',
+  '4h': 'MMM d HH:mm',
+  '1d': 'MMM d',
+  '1w': 'MMM yyyy'
+}
+
+interface CandlestickChartProps {
+  candles: Candle[]
+  interval: CandleInterval
+  high24h?: number
+  low24h?: number
+  ath?: number | null
+  cpr?: CprLevels | null
+}
+
+export function CandlestickChart({ candles, interval, high24h, low24h, ath, cpr }: CandlestickChartProps) {
+  const data: CandlePoint[] = candles.map(candle => ({ ...candle, range: [candle.low, candle.high] }))
+  const tickFormatter = (time: number) => format(time, TICK_FORMATS[interval])
+
+  const visibleHigh = Math.max(...candles.map(c => c.high))
+  const athInView = ath != null && ath <= visibleHigh * 1.05
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-auto h-[360px] w-full">
+        <ComposedChart data={data} syncId="coin-detail" margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickFormatter={tickFormatter} minTickGap={40} hide />
+          <YAxis
+            orientation="right"
+            domain={[(min: number) => min * 0.995, (max: number) => (athInView ? Math.max(max, ath!) : max) * 1.005]}
+            tickFormatter={(value: number) => formatPrice(value)}
+            width={90}
+            axisLine={false}
+            tickLine={false}
+          />
+          <ChartTooltip cursor={false} content={<CandleTooltip />} />
+
+          {high24h !== undefined && low24h !== undefined && (
+            <ReferenceArea
+              y1={low24h}
+              y2={high24h}
+              fill="var(--color-band)"
+              fillOpacity={0.08}
+              stroke="var(--color-band)"
+              strokeOpacity={0.3}
+              strokeDasharray="4 4"
+              ifOverflow="hidden"
+              label={{ value: '24h range', position: 'insideTopLeft', fill: 'var(--color-band)', fontSize: 10 }}
+            />
+          )}
+
+          {athInView && (
+            <ReferenceLine
+              y={ath!}
+              stroke="var(--color-ath)"
+              strokeDasharray="6 3"
+              label={{ value: `ATH ${formatPrice(ath!)}`, position: 'insideBottomLeft', fill: 'var(--color-ath)', fontSize: 10 }}
+            />
+          )}
+
+          {cpr && (
+            <ReferenceArea y1={cpr.bc} y2={cpr.tc} fill="var(--color-cpr)" fillOpacity={0.15} ifOverflow="hidden" />
+          )}
+          {/* Levels outside the candle range are dropped rather than squashing the chart */}
+          {cpr && CPR_LINES.map(line => (
+            <ReferenceLine
+              key={line.key}
+              y={cpr[line.key]}
+              stroke={line.color}
+              strokeOpacity={0.7}
+              strokeDasharray={line.key === 'pivot' ? undefined : '2 3'}
+              label={{ value: line.label, position: 'insideLeft', fill: line.color, fontSize: 10 }}
+            />
+          ))}
+
+          <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+        </ComposedChart>
+      </ChartContainer>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-[100px] w-full">
+        <BarChart data={data} syncId="coin-detail" margin={{ top: 0, right: 8, bottom: 0, left: 8 }}>
+          <XAxis dataKey="time" tickFormatter={tickFormatter} minTickGap={40} axisLine={false} tickLine={false} />
+          <YAxis
+            orientation="right"
+            tickFormatter={(value: number) => formatVolume(value)}
+            width={90}
+            axisLine={false}
+            tickLine={false}
+            tickCount={3}
+          />
+          <ChartTooltip cursor={false} content={<CandleTooltip />} />
+          <Bar dataKey="volume" isAnimationActive={false}>
+            {data.map(candle => (
+              <Cell
+                key={candle.time}
+                fill={candle.close >= candle.open ? 'var(--color-up)' : 'var(--color-down)'}
+                fillOpacity={0.5}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+
+      {ath != null && !athInView && (
+        <p className="text-xs text-muted-foreground">
+          ATH of {formatPrice(ath)} is above the visible range.
+        </p>
+      )}
+    </div>
+  )
+}
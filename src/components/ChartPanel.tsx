@@ -0,0 +1,167 @@
+import { useMemo, useState, type ReactNode } from 'react'
+import { useTheme } from 'next-themes'
+import { ChevronDown, ExternalLink } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { ChartPanelContext } from '@/hooks/use-chart-panel'
+import { useTradingViewOptions } from '@/hooks/use-tradingview-options'
+import {
+  DEFAULT_TRADINGVIEW_OPTIONS,
+  getTradingViewEmbedUrl,
+  openTradingViewChart,
+  TRADINGVIEW_INTERVAL_LABELS,
+  TRADINGVIEW_INTERVALS,
+  TRADINGVIEW_STUDIES,
+  TRADINGVIEW_STUDY_LABELS,
+  tradingViewSymbol,
+  type TradingViewInterval,
+  type TradingViewOptions
+} from '@/lib/tradingview'
+
+const THEME_LABELS: Record<TradingViewOptions['theme'], string> = {
+  auto: 'Match app',
+  light: 'Light',
+  dark: 'Dark'
+}
+
+// Keeps the typed value local until blur/Enter so the chart doesn't reload
+// on every keystroke
+function SymbolField({ symbol, value, onCommit }: { symbol: string; value: string; onCommit: (value: string) => void }) {
+  const [draft, setDraft] = useState(value)
+  const fallback = tradingViewSymbol(symbol, DEFAULT_TRADINGVIEW_OPTIONS)
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="tradingview-symbol" className="text-xs text-muted-foreground">TradingView symbol</Label>
+      <Input
+        id="tradingview-symbol"
+        className="h-9 w-48 font-mono"
+        placeholder={fallback}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== value && onCommit(draft)}
+        onKeyDown={(e) => e.key === 'Enter' && onCommit(draft)}
+      />
+    </div>
+  )
+}
+
+function TradingViewChart({ symbol }: { symbol: string }) {
+  const { resolvedTheme } = useTheme()
+  const { options, updateOptions, setSymbolOverride } = useTradingViewOptions()
+  const src = getTradingViewEmbedUrl(symbol, resolvedTheme, options)
+  const override = options.symbols[symbol.toUpperCase()] ?? ''
+
+  const toggleStudy = (study: TradingViewOptions['studies'][number], checked: boolean) => {
+    updateOptions({
+      // Keep the catalogue order so the same set always builds the same URL
+      studies: TRADINGVIEW_STUDIES.filter(id => id === study ? checked : options.studies.includes(id))
+    })
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-end gap-3">
+        <SymbolField
+          key={symbol}
+          symbol={symbol}
+          value={override}
+          onCommit={(value) => setSymbolOverride(symbol, value)}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="tradingview-interval" className="text-xs text-muted-foreground">Interval</Label>
+          <Select value={options.interval} onValueChange={(value) => updateOptions({ interval: value as TradingViewInterval })}>
+            <SelectTrigger id="tradingview-interval" className="h-9 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRADINGVIEW_INTERVALS.map(interval => (
+                <SelectItem key={interval} value={interval}>{TRADINGVIEW_INTERVAL_LABELS[interval]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="tradingview-theme" className="text-xs text-muted-foreground">Theme</Label>
+          <Select value={options.theme} onValueChange={(value) => updateOptions({ theme: value as TradingViewOptions['theme'] })}>
+            <SelectTrigger id="tradingview-theme" className="h-9 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(THEME_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9">
+              Studies ({options.studies.length})
+              <ChevronDown />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {TRADINGVIEW_STUDIES.map(study => (
+              <DropdownMenuCheckboxItem
+                key={study}
+                checked={options.studies.includes(study)}
+                onCheckedChange={(checked) => toggleStudy(study, checked)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {TRADINGVIEW_STUDY_LABELS[study]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-9"
+          onClick={() => openTradingViewChart(symbol, resolvedTheme, options)}
+        >
+          <ExternalLink />
+          Open in new tab
+        </Button>
+      </div>
+
+      <iframe
+        src={src}
+        title={`${symbol.toUpperCase()} TradingView chart`}
+        className="min-h-0 w-full flex-1 rounded-md border border-border"
+        allowFullScreen
+      />
+    </>
+  )
+}
+
+// Any component can open the chart for a coin through useChartPanel();
+// the sheet itself lives here, once, above the routes
+export function ChartPanelProvider({ children }: { children: ReactNode }) {
+  const [symbol, setSymbol] = useState<string | null>(null)
+  const context = useMemo(() => ({ openChart: setSymbol }), [])
+
+  return (
+    <ChartPanelContext.Provider value={context}>
+      {children}
+      <Sheet open={symbol !== null} onOpenChange={(open) => !open && setSymbol(null)}>
+        <SheetContent className="flex w-full flex-col gap-4 sm:max-w-4xl">
+          <SheetHeader>
+            <SheetTitle>{symbol?.toUpperCase()} chart</SheetTitle>
+            <SheetDescription>TradingView advanced chart. Options are saved in this browser.</SheetDescription>
+          </SheetHeader>
+          {symbol && <TradingViewChart symbol={symbol} />}
+        </SheetContent>
+      </Sheet>
+    </ChartPanelContext.Provider>
+  )
+}
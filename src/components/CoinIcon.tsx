@@ -0,0 +1,21 @@
+import { cn } from '@/lib/utils'
+
+interface CoinIconProps {
+  image: string
+  name: string
+  symbol: string
+  className?: string
+}
+
+// Providers without coin metadata (e.g. Binance) have no logo URL
+export function CoinIcon({ image, name, symbol, className }: CoinIconProps) {
+  if (!image) {
+    return (
+      <div className={cn('flex items-center justify-center rounded-full bg-muted text-xs font-bold uppercase text-muted-foreground', className)}>
+        {symbol.slice(0, 3)}
+      </div>
+    )
+  }
+
+  return <img src={image} alt={name} className={cn('rounded-full', className)} />
+}
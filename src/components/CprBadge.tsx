@@ -0,0 +1,29 @@
+import { formatPrice } from '@/lib/format'
+import { getCprPosition, getCprWidthLabel, type CprLevels } from '@/lib/indicators/cpr'
+
+const POSITION_COLORS = {
+  above: 'text-green-500',
+  inside: 'text-yellow-500',
+  below: 'text-red-500'
+} as const
+
+interface CprBadgeProps {
+  price: number
+  levels: CprLevels
+  className?: string
+}
+
+// Where price sits relative to the CPR and how wide the range is
+export function CprBadge({ price, levels, className = '' }: CprBadgeProps) {
+  const position = getCprPosition(price, levels)
+
+  return (
+    <span
+      className={`font-medium ${POSITION_COLORS[position]} ${className}`}
+      title={`${getCprWidthLabel(levels)} ${levels.period} CPR: BC ${formatPrice(levels.bc)} / P ${formatPrice(levels.pivot)} / TC ${formatPrice(levels.tc)}`}
+    >
+      <span className="capitalize">{position}</span>
+      <span className="text-xs text-muted-foreground ml-1">{levels.widthPercent.toFixed(2)}% wide</span>
+    </span>
+  )
+}
@@ -0,0 +1,285 @@
+import { memo, type HTMLAttributes } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  BarChart3,
+  ChartCandlestick,
+  ChevronDown,
+  ChevronUp,
+  DollarSign,
+  GripVertical,
+  Layers,
+  Percent,
+  Pin,
+  PinOff,
+  Target,
+  TrendingDown,
+  TrendingUp
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { CoinIcon } from '@/components/CoinIcon'
+import { CprBadge } from '@/components/CprBadge'
+import { FreshnessBadge } from '@/components/FreshnessBadge'
+import { SignalBadge } from '@/components/SignalBadge'
+import { useChartPanel } from '@/hooks/use-chart-panel'
+import { useCoin, useFundingRate } from '@/hooks/use-market-data'
+import { cardKey } from '@/lib/card-layout'
+import { formatFundingRate, formatPrice, formatVolume } from '@/lib/format'
+import type { CprSet } from '@/lib/indicators/cpr'
+import type { PositionSide } from '@/lib/paper/account'
+import type { SignalExplanation } from '@/lib/signals/explain'
+import { cn } from '@/lib/utils'
+
+// Every prop is stable between ticks (callbacks take the symbol instead of
+// closing over it, and useSignals reuses unchanged explanations), so with
+// memo() a card only re-renders when something about its own coin changes
+interface CryptoCardProps {
+  symbol: string
+  cpr?: CprSet
+  // Null for demo data, which never gets a signal
+  explanation: SignalExplanation | null
+  // Opens a paper position in the signal's direction
+  onPaperTrade: (symbol: string, side: PositionSide, price: number) => void
+  pinned: boolean
+  collapsed: boolean
+  onTogglePinned: (key: string) => void
+  onToggleCollapsed: (key: string) => void
+  // Pointer and keyboard listeners from the sortable grid
+  dragHandleProps?: HTMLAttributes<HTMLButtonElement>
+}
+
+export const CryptoCard = memo(function CryptoCard({
+  symbol,
+  cpr,
+  explanation,
+  onPaperTrade,
+  pinned,
+  collapsed,
+  onTogglePinned,
+  onToggleCollapsed,
+  dragHandleProps
+}: CryptoCardProps) {
+  const navigate = useNavigate()
+  const { openChart } = useChartPanel()
+  const crypto = useCoin(symbol)
+  const funding = useFundingRate(symbol)
+  const dailyCpr = cpr?.daily
+  const key = cardKey(symbol)
+
+  if (!crypto) return null
+
+  return (
+    <Card
+      className={cn(
+        'bg-card border-border hover:border-accent/50 transition-all duration-300 hover:shadow-lg hover:shadow-accent/10 group relative cursor-pointer hover:scale-[1.02]',
+        pinned && 'border-accent/40',
+        !collapsed && 'h-full'
+      )}
+      onClick={() => navigate(`/coin/${crypto.id}`)}
+      title={`Click to view ${crypto.name} price history`}
+    >
+      {/* Trade Signal Badge */}
+      {explanation && (
+        <SignalBadge
+          explanation={explanation}
+          onPaperTrade={() => onPaperTrade(
+            crypto.symbol,
+            explanation.action === 'BUY' ? 'long' : 'short',
+            crypto.current_price
+          )}
+        />
+      )}
+
+      {/* TradingView Link */}
+      <div className="absolute top-3 left-3 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity duration-300">
+        <button
+          onClick={(event) => {
+            event.stopPropagation()
+            openChart(crypto.symbol)
+          }}
+          className="flex items-center gap-1 px-2 py-1 bg-accent/10 hover:bg-accent/20 text-accent rounded-md text-xs font-medium"
+          title={`Open the ${crypto.name} TradingView chart`}
+        >
+          <ChartCandlestick className="h-3 w-3" />
+          TradingView
+        </button>
+      </div>
+
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <CoinIcon
+              image={crypto.image}
+              name={crypto.name}
+              symbol={crypto.symbol}
+              className="h-10 w-10"
+            />
+            <div>
+              <CardTitle className="text-lg font-semibold text-foreground group-hover:text-accent transition-colors">
+                {crypto.name}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <p className="text-sm text-muted-foreground uppercase font-medium">
+                  {crypto.symbol}
+                </p>
+                <FreshnessBadge provenance={crypto.provenance} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Price */}
+        <div>
+          <p className="text-2xl font-bold text-foreground">
+            {formatPrice(crypto.current_price)}
+          </p>
+          <div className="flex items-center gap-1 mt-1">
+            {crypto.price_change_percentage_24h >= 0 ? (
+              <TrendingUp className="h-4 w-4 text-green-500" />
+            ) : (
+              <TrendingDown className="h-4 w-4 text-red-500" />
+            )}
+            <span
+              className={`text-sm font-medium ${
+                crypto.price_change_percentage_24h >= 0
+                  ? 'text-green-500'
+                  : 'text-red-500'
+              }`}
+            >
+              {crypto.price_change_percentage_24h >= 0 ? '+' : ''}
+              {crypto.price_change_percentage_24h.toFixed(2)}%
+            </span>
+            <span className="text-xs text-muted-foreground ml-1">24h</span>
+          </div>
+        </div>
+
+        {/* Enhanced Market Stats */}
+        {!collapsed && (
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <DollarSign className="h-3 w-3" />
+                Volume 24h
+              </div>
+              <span className="font-medium text-foreground">
+                {formatVolume(crypto.total_volume)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <BarChart3 className="h-3 w-3" />
+                24h Range
+              </div>
+              <span className="font-medium text-foreground text-xs">
+                {formatPrice(crypto.low_24h)} - {formatPrice(crypto.high_24h)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <TrendingUp className="h-3 w-3" />
+                7d Change
+              </div>
+              {crypto.price_change_percentage_7d !== null ? (
+                <span
+                  className={`font-medium ${
+                    crypto.price_change_percentage_7d >= 0
+                      ? 'text-green-500'
+                      : 'text-red-500'
+                  }`}
+                >
+                  {crypto.price_change_percentage_7d >= 0 ? '+' : ''}
+                  {crypto.price_change_percentage_7d.toFixed(2)}%
+                </span>
+              ) : (
+                <span className="font-medium text-muted-foreground">N/A</span>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <Target className="h-3 w-3" />
+                ATH Distance
+              </div>
+              {crypto.ath_change_percentage !== null ? (
+                <span className="font-medium text-red-500">
+                  {crypto.ath_change_percentage.toFixed(1)}%
+                </span>
+              ) : (
+                <span className="font-medium text-muted-foreground">N/A</span>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <Percent className="h-3 w-3" />
+                Funding
+              </div>
+              {funding ? (
+                <span
+                  className="font-medium text-foreground"
+                  title={funding.nextFundingTime
+                    ? `${funding.exchange} • next funding ${new Date(funding.nextFundingTime).toLocaleTimeString()}`
+                    : funding.exchange}
+                >
+                  {formatFundingRate(funding.rate)}
+                  <span className="text-xs text-muted-foreground ml-1">/{funding.intervalHours}h</span>
+                </span>
+              ) : (
+                <span className="font-medium text-muted-foreground">N/A</span>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <Layers className="h-3 w-3" />
+                Daily CPR
+              </div>
+              {dailyCpr ? (
+                <CprBadge price={crypto.current_price} levels={dailyCpr} />
+              ) : (
+                <span className="font-medium text-muted-foreground">N/A</span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="justify-between px-3 pb-3 pt-0" onClick={(event) => event.stopPropagation()}>
+        <button
+          {...dragHandleProps}
+          className="cursor-grab touch-none rounded p-1 text-muted-foreground hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+          aria-label={`Reorder ${crypto.name}`}
+          title="Drag to reorder, or focus and press space"
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-7 w-7', pinned ? 'text-accent' : 'text-muted-foreground')}
+            aria-pressed={pinned}
+            aria-label={pinned ? `Unpin ${crypto.name}` : `Pin ${crypto.name} to the top`}
+            onClick={() => onTogglePinned(key)}
+          >
+            {pinned ? <PinOff /> : <Pin />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground"
+            aria-expanded={!collapsed}
+            aria-label={collapsed ? `Expand ${crypto.name}` : `Collapse ${crypto.name}`}
+            onClick={() => onToggleCollapsed(key)}
+          >
+            {collapsed ? <ChevronDown /> : <ChevronUp />}
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  )
+})
@@ -0,0 +1,69 @@
+import { format } from 'date-fns'
+import { ShieldAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useDiagnostics } from '@/hooks/use-diagnostics'
+
+export function DiagnosticsDialog() {
+  const { dropped, clear } = useDiagnostics()
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Data diagnostics" className="relative">
+          <ShieldAlert />
+          {dropped.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-yellow-500 px-1 text-[10px] font-bold text-black">
+              {dropped.length}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Data diagnostics</DialogTitle>
+          <DialogDescription>
+            Items left out of provider responses because they failed validation. The rest of each response is still used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh]">
+          {dropped.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Nothing has been dropped this session.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Last seen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dropped.map(entry => (
+                  <TableRow key={`${entry.source}:${entry.item}`}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{entry.source}</TableCell>
+                    <TableCell className="font-mono">{entry.item}</TableCell>
+                    <TableCell className="text-xs">{entry.reason}</TableCell>
+                    <TableCell className="whitespace-nowrap text-right text-xs text-muted-foreground">
+                      {format(entry.droppedAt, 'HH:mm:ss')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={clear} disabled={dropped.length === 0}>
+            Clear
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,86 @@
+import { format } from 'date-fns'
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { formatPrice } from '@/lib/format'
+import type { EquityPoint } from '@/lib/backtest/engine'
+
+const chartConfig = {
+  equity: { label: 'Strategy', theme: { light: 'hsl(217 91% 50%)', dark: 'hsl(217 91% 60%)' } },
+  buyAndHold: { label: 'Buy & hold', theme: { light: 'hsl(215 16% 45%)', dark: 'hsl(215 16% 57%)' } },
+  drawdownPercent: { label: 'Drawdown', theme: { light: 'hsl(0 72% 50%)', dark: 'hsl(0 84% 60%)' } }
+} satisfies ChartConfig
+
+// Recharts slows down past a few thousand points; every nth point is plenty
+// for a curve this wide
+const MAX_POINTS = 1500
+
+interface EquityChartProps {
+  equity: EquityPoint[]
+}
+
+export function EquityChart({ equity }: EquityChartProps) {
+  const step = Math.ceil(equity.length / MAX_POINTS)
+  const data = equity.filter((_, i) => i % step === 0 || i === equity.length - 1)
+  const tickFormatter = (time: number) => format(time, 'MMM d')
+  const labelFormatter = (_: unknown, payload: { payload?: EquityPoint }[]) =>
+    payload[0]?.payload ? format(payload[0].payload.time, 'MMM d, HH:mm') : ''
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+        <LineChart data={data} syncId="backtest" margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickFormatter={tickFormatter} minTickGap={40} hide />
+          <YAxis
+            orientation="right"
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => formatPrice(value)}
+            width={90}
+            axisLine={false}
+            tickLine={false}
+          />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={labelFormatter} formatter={(value, name) => (
+              <div className="flex w-full justify-between gap-4">
+                <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                <span className="font-mono tabular-nums">{formatPrice(Number(value))}</span>
+              </div>
+            )} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="buyAndHold" stroke="var(--color-buyAndHold)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+          <Line dataKey="equity" stroke="var(--color-equity)" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-[120px] w-full">
+        <AreaChart data={data} syncId="backtest" margin={{ top: 0, right: 8, bottom: 0, left: 8 }}>
+          <XAxis dataKey="time" tickFormatter={tickFormatter} minTickGap={40} axisLine={false} tickLine={false} />
+          <YAxis
+            orientation="right"
+            tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+            width={90}
+            axisLine={false}
+            tickLine={false}
+            tickCount={3}
+          />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={labelFormatter} formatter={(value) => (
+              <div className="flex w-full justify-between gap-4">
+                <span className="text-muted-foreground">Drawdown</span>
+                <span className="font-mono tabular-nums">{Number(value).toFixed(2)}%</span>
+              </div>
+            )} />}
+          />
+          <Area
+            dataKey="drawdownPercent"
+            stroke="var(--color-drawdownPercent)"
+            fill="var(--color-drawdownPercent)"
+            fillOpacity={0.2}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  )
+}
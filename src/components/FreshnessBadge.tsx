@@ -0,0 +1,31 @@
+import { useIsStale } from '@/hooks/use-is-stale'
+import { formatDataTime } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { DataProvenance } from '@/types/crypto'
+
+interface FreshnessBadgeProps {
+  provenance: DataProvenance
+  className?: string
+}
+
+// DEMO for sample data, STALE once real data (including a restored offline
+// snapshot) is past its freshness window, nothing while it is live
+export function FreshnessBadge({ provenance, className }: FreshnessBadgeProps) {
+  const stale = useIsStale(provenance.isFallback ? null : provenance.fetchedAt)
+  if (!provenance.isFallback && !stale) return null
+
+  return (
+    <span
+      className={cn(
+        'rounded px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wide',
+        provenance.isFallback ? 'bg-red-500/15 text-red-500' : 'bg-yellow-500/15 text-yellow-600 dark:text-yellow-400',
+        className
+      )}
+      title={provenance.isFallback
+        ? 'Sample prices, not market data. Signals are off.'
+        : `Last fetched from ${provenance.source} at ${formatDataTime(provenance.fetchedAt)}`}
+    >
+      {provenance.isFallback ? 'Demo' : 'Stale'}
+    </span>
+  )
+}
@@ -0,0 +1,56 @@
+import { useMemo } from 'react'
+import { Activity } from 'lucide-react'
+import { useIsStale } from '@/hooks/use-is-stale'
+import { useMarkets } from '@/hooks/use-market-data'
+import { useOnlineStatus } from '@/hooks/use-online-status'
+import { formatDataTime } from '@/lib/format'
+import { summarizeProvenance, type ProvenanceSummary } from '@/lib/provenance'
+import { cn } from '@/lib/utils'
+
+interface LiveIndicatorProps {
+  providerName: string
+  isStreaming: boolean
+}
+
+function getStatus(summary: ProvenanceSummary, stale: boolean, online: boolean, isStreaming: boolean) {
+  if (!online) {
+    return {
+      label: 'Offline',
+      color: 'text-muted-foreground',
+      title: 'Showing the last data saved on this device. Alerts are checked again once you are back online.'
+    }
+  }
+  if (summary.fallbackCount > 0) {
+    return { label: 'Demo Data', color: 'text-red-500', title: 'Sample prices, not market data. Signals are off.' }
+  }
+  if (stale) {
+    return { label: 'Stale Data', color: 'text-yellow-500', title: 'The provider has not returned fresh data recently.' }
+  }
+  return { label: isStreaming ? 'Live Stream' : 'Live Data', color: 'text-accent', title: undefined }
+}
+
+// Header status. Only claims "live" while every coin on screen is real data
+// inside its freshness window; the time shown is the oldest coin's fetch.
+export function LiveIndicator({ providerName, isStreaming }: LiveIndicatorProps) {
+  const markets = useMarkets()
+  const summary = useMemo(() => summarizeProvenance(markets), [markets])
+  const stale = useIsStale(summary.fetchedAt)
+  const online = useOnlineStatus()
+
+  const status = getStatus(summary, stale, online, isStreaming)
+  const live = online && summary.fallbackCount === 0 && !stale && summary.fetchedAt !== null
+
+  return (
+    <div className="text-right" title={status.title}>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+        <Activity className={cn('h-4 w-4', status.color, live && 'animate-pulse')} />
+        {status.label}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {providerName} • {summary.fetchedAt !== null
+          ? `Data as of ${formatDataTime(summary.fetchedAt)}`
+          : 'No live data yet'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { Treemap } from 'recharts'
+import { ChartContainer } from '@/components/ui/chart'
+import { formatVolume } from '@/lib/format'
+import { heatColor, type HeatmapCategory, type HeatmapGroup, type HeatmapTile } from '@/lib/heatmap'
+
+// Tiles smaller than this skip their labels rather than overflow
+const MIN_LABEL_WIDTH = 36
+const MIN_LABEL_HEIGHT = 22
+
+// Gap between category blocks, so groups read apart without a header row
+const GROUP_GAP = 3
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Props recharts passes to custom treemap content: the layout box plus the
+// fields of the data node it belongs to, and the parent node as `root`
+interface TileProps extends Partial<Box>, Partial<HeatmapTile> {
+  depth?: number
+  root?: Box & Partial<HeatmapGroup>
+  limit: number
+  onSelectCategory?: (category: HeatmapCategory) => void
+}
+
+// Pulls tile edges that sit on their category's border inward
+function inset(tile: Box, group: Box): Box {
+  const left = tile.x <= group.x ? GROUP_GAP : 0
+  const top = tile.y <= group.y ? GROUP_GAP : 0
+  const right = tile.x + tile.width >= group.x + group.width ? GROUP_GAP : 0
+  const bottom = tile.y + tile.height >= group.y + group.height ? GROUP_GAP : 0
+  return {
+    x: tile.x + left,
+    y: tile.y + top,
+    width: Math.max(0, tile.width - left - right),
+    height: Math.max(0, tile.height - top - bottom)
+  }
+}
+
+function Tile({ depth, root, name, symbol, size, change, limit, onSelectCategory, ...box }: TileProps) {
+  // Category boxes are fully covered by their coins; only coins draw
+  if (depth !== 2 || change === undefined || !root) return null
+
+  const { x, y, width, height } = inset(
+    { x: box.x ?? 0, y: box.y ?? 0, width: box.width ?? 0, height: box.height ?? 0 },
+    root
+  )
+  const showLabel = width >= MIN_LABEL_WIDTH && height >= MIN_LABEL_HEIGHT
+  const fontSize = Math.max(10, Math.min(18, width / 6, height / 3))
+  const changeLabel = change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(limit < 1 ? 4 : 2)}%`
+  // The coin in the category's top-left corner carries the category name
+  const category = root.category
+  const showCategory = category && x - root.x <= GROUP_GAP && y - root.y <= GROUP_GAP && width > 80 && height > 40
+
+  return (
+    <g className="cursor-pointer">
+      <title>{`${name} (${symbol})\n${changeLabel}\n${formatVolume(size ?? 0)}`}</title>
+      <rect x={x} y={y} width={width} height={height} fill={heatColor(change, limit)} />
+      {showCategory && (
+        <text
+          x={x + 6}
+          y={y + 14}
+          fill="white"
+          fillOpacity={0.75}
+          fontSize={11}
+          fontWeight={600}
+          className={onSelectCategory ? 'cursor-zoom-in uppercase' : 'uppercase'}
+          onClick={onSelectCategory && ((event) => {
+            event.stopPropagation()
+            onSelectCategory(category)
+          })}
+        >
+          {root.name}
+        </text>
+      )}
+      {showLabel && (
+        <>
+          <text x={x + width / 2} y={y + height / 2} textAnchor="middle" fill="white" fontSize={fontSize} fontWeight={700}>
+            {symbol}
+          </text>
+          {height >= MIN_LABEL_HEIGHT * 2 && (
+            <text x={x + width / 2} y={y + height / 2 + fontSize} textAnchor="middle" fill="white" fillOpacity={0.85} fontSize={fontSize * 0.7}>
+              {changeLabel}
+            </text>
+          )}
+        </>
+      )}
+    </g>
+  )
+}
+
+interface MarketHeatmapProps {
+  groups: HeatmapGroup[]
+  // Change, in percent, at which a tile reaches full color
+  limit: number
+  onSelectCoin: (tile: HeatmapTile) => void
+  onSelectCategory?: (category: HeatmapCategory) => void
+}
+
+export function MarketHeatmap({ groups, limit, onSelectCoin, onSelectCategory }: MarketHeatmapProps) {
+  return (
+    <ChartContainer config={{}} className="aspect-auto h-[600px] w-full">
+      <Treemap
+        data={groups}
+        dataKey="size"
+        nameKey="name"
+        aspectRatio={4 / 3}
+        isAnimationActive={false}
+        content={<Tile limit={limit} onSelectCategory={onSelectCategory} />}
+        onClick={(node) => {
+          const data = node as unknown as TileProps
+          if (data.depth === 2 && data.id && data.symbol) onSelectCoin(data as HeatmapTile)
+        }}
+      />
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,318 @@
+import { useMemo, useState, type ReactNode, type UIEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { CoinIcon } from '@/components/CoinIcon'
+import { FreshnessBadge } from '@/components/FreshnessBadge'
+import { usePersistentState } from '@/hooks/use-persistent-state'
+import { formatFundingRate, formatPrice, formatVolume } from '@/lib/format'
+import type { SignalExplanation } from '@/lib/signals/explain'
+import type { CryptoData, FundingRate } from '@/types/crypto'
+
+export interface MarketRow {
+  crypto: CryptoData
+  funding?: FundingRate
+  // null when the coin is on demo data and no signal is evaluated
+  signal: SignalExplanation | null
+}
+
+interface Column {
+  key: string
+  label: string
+  // Sort value; null sorts last in either direction
+  value: (row: MarketRow) => number | string | null
+  render: (row: MarketRow) => ReactNode
+  align?: 'right'
+}
+
+function changeCell(value: number | null) {
+  if (value === null) return <span className="text-muted-foreground">—</span>
+  return (
+    <span className={value >= 0 ? 'text-green-500' : 'text-red-500'}>
+      {value >= 0 ? '+' : ''}{value.toFixed(2)}%
+    </span>
+  )
+}
+
+function rangePosition({ crypto }: MarketRow) {
+  const range = crypto.high_24h - crypto.low_24h
+  return range > 0 ? ((crypto.current_price - crypto.low_24h) / range) * 100 : null
+}
+
+const COLUMNS: Column[] = [
+  {
+    key: 'price',
+    label: 'Price',
+    align: 'right',
+    value: ({ crypto }) => crypto.current_price,
+    render: ({ crypto }) => formatPrice(crypto.current_price)
+  },
+  {
+    key: 'change24h',
+    label: '24h',
+    align: 'right',
+    value: ({ crypto }) => crypto.price_change_percentage_24h,
+    render: ({ crypto }) => changeCell(crypto.price_change_percentage_24h)
+  },
+  {
+    key: 'change7d',
+    label: '7d',
+    align: 'right',
+    value: ({ crypto }) => crypto.price_change_percentage_7d,
+    render: ({ crypto }) => changeCell(crypto.price_change_percentage_7d)
+  },
+  {
+    key: 'volume',
+    label: 'Volume 24h',
+    align: 'right',
+    value: ({ crypto }) => crypto.total_volume,
+    render: ({ crypto }) => formatVolume(crypto.total_volume)
+  },
+  {
+    key: 'rangePosition',
+    label: '24h range',
+    align: 'right',
+    value: rangePosition,
+    render: (row) => {
+      const position = rangePosition(row)
+      if (position === null) return '—'
+      return (
+        <div className="ml-auto flex w-24 items-center gap-2">
+          <div className="h-1.5 flex-1 rounded-full bg-muted">
+            <div className="h-1.5 rounded-full bg-accent" style={{ width: `${position}%` }} />
+          </div>
+          <span className="w-8 text-right text-xs">{position.toFixed(0)}%</span>
+        </div>
+      )
+    }
+  },
+  {
+    key: 'athDistance',
+    label: 'From ATH',
+    align: 'right',
+    value: ({ crypto }) => crypto.ath_change_percentage,
+    render: ({ crypto }) => changeCell(crypto.ath_change_percentage)
+  },
+  {
+    key: 'funding',
+    label: 'Funding',
+    align: 'right',
+    value: ({ funding }) => funding?.rate ?? null,
+    render: ({ funding }) => funding
+      ? <span className={funding.rate >= 0 ? 'text-green-500' : 'text-red-500'}>{formatFundingRate(funding.rate)}</span>
+      : <span className="text-muted-foreground">—</span>
+  },
+  {
+    key: 'signal',
+    label: 'Signal',
+    value: ({ signal }) => signal?.score ?? null,
+    render: ({ signal }) => signal?.action
+      ? (
+        <span className={`font-bold ${signal.action === 'BUY' ? 'text-green-500' : 'text-red-500'}`}>
+          {signal.action} <span className="text-xs font-normal text-muted-foreground">{signal.score > 0 ? '+' : ''}{signal.score}</span>
+        </span>
+      )
+      : <span className="text-muted-foreground">—</span>
+  }
+]
+
+type SortDirection = 'asc' | 'desc'
+
+interface TableState {
+  // null keeps the provider's order (market cap)
+  sort: { key: string; direction: SortDirection } | null
+  hidden: string[]
+}
+
+const DEFAULT_TABLE_STATE: TableState = { sort: null, hidden: [] }
+
+type SignalFilter = 'all' | 'BUY' | 'SELL'
+
+// Rows are a fixed height so only the visible slice has to be rendered;
+// hundreds of coins then cost no more than a screenful
+const ROW_HEIGHT = 44
+const VIEWPORT_HEIGHT = 640
+const OVERSCAN = 8
+
+function compare(a: number | string | null, b: number | string | null, direction: SortDirection) {
+  if (a === null) return b === null ? 0 : 1
+  if (b === null) return -1
+  const result = typeof a === 'string' ? a.localeCompare(String(b)) : a - (b as number)
+  return direction === 'asc' ? result : -result
+}
+
+function sortValue(key: string) {
+  if (key === 'coin') return (row: MarketRow) => row.crypto.name
+  return COLUMNS.find(column => column.key === key)?.value
+}
+
+interface MarketTableProps {
+  rows: MarketRow[]
+}
+
+export function MarketTable({ rows }: MarketTableProps) {
+  const navigate = useNavigate()
+  const [state, setState] = usePersistentState<TableState>('market-table', DEFAULT_TABLE_STATE)
+  const [query, setQuery] = useState('')
+  const [signalFilter, setSignalFilter] = useState<SignalFilter>('all')
+  const [scrollTop, setScrollTop] = useState(0)
+
+  const columns = COLUMNS.filter(column => !state.hidden.includes(column.key))
+
+  const visibleRows = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    const filtered = rows.filter(({ crypto, signal }) =>
+      (!needle || crypto.name.toLowerCase().includes(needle) || crypto.symbol.toLowerCase().includes(needle)) &&
+      (signalFilter === 'all' || signal?.action === signalFilter)
+    )
+    const value = state.sort && sortValue(state.sort.key)
+    if (!state.sort || !value) return filtered
+    const { direction } = state.sort
+    return [...filtered].sort((a, b) => compare(value(a), value(b), direction))
+  }, [rows, query, signalFilter, state.sort])
+
+  // Numbers start high-to-low, names A-Z; a third click restores the default order
+  const toggleSort = (key: string) => {
+    const first: SortDirection = key === 'coin' ? 'asc' : 'desc'
+    setState(prev => {
+      if (prev.sort?.key !== key) return { ...prev, sort: { key, direction: first } }
+      if (prev.sort.direction === first) return { ...prev, sort: { key, direction: first === 'asc' ? 'desc' : 'asc' } }
+      return { ...prev, sort: null }
+    })
+  }
+
+  const toggleColumn = (key: string, visible: boolean) => {
+    setState(prev => ({
+      ...prev,
+      hidden: visible ? prev.hidden.filter(k => k !== key) : [...prev.hidden, key]
+    }))
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const end = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const slice = visibleRows.slice(start, end)
+
+  const sortIcon = (key: string) => {
+    if (state.sort?.key !== key) return <ArrowUpDown className="h-3 w-3 opacity-40" />
+    return state.sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+  }
+
+  const header = (key: string, label: string, align?: 'right') => (
+    <TableHead key={key} className={align === 'right' ? 'text-right' : ''} aria-sort={
+      state.sort?.key === key ? (state.sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'
+    }>
+      <button
+        onClick={() => toggleSort(key)}
+        className={`inline-flex items-center gap-1 hover:text-foreground ${align === 'right' ? 'flex-row-reverse' : ''}`}
+      >
+        {label}
+        {sortIcon(key)}
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-48">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter coins..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <ToggleGroup
+          type="single"
+          value={signalFilter}
+          onValueChange={(value) => value && setSignalFilter(value as SignalFilter)}
+          variant="outline"
+          size="sm"
+        >
+          <ToggleGroupItem value="all">All</ToggleGroupItem>
+          <ToggleGroupItem value="BUY">BUY</ToggleGroupItem>
+          <ToggleGroupItem value="SELL">SELL</ToggleGroupItem>
+        </ToggleGroup>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {COLUMNS.map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.key}
+                checked={!state.hidden.includes(column.key)}
+                onCheckedChange={(checked) => toggleColumn(column.key, checked)}
+                onSelect={(event) => event.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* The outer div scrolls; overriding the Table wrapper's overflow keeps the header sticky */}
+      <div
+        className="overflow-auto rounded-lg border border-border [&>div]:overflow-visible"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(event: UIEvent<HTMLDivElement>) => setScrollTop(event.currentTarget.scrollTop)}
+      >
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-card">
+            <TableRow>
+              {header('coin', 'Coin')}
+              {columns.map(column => header(column.key, column.label, column.align))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+            {slice.map(row => (
+              <TableRow
+                key={row.crypto.id}
+                className="cursor-pointer whitespace-nowrap"
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => navigate(`/coin/${row.crypto.id}`)}
+              >
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <CoinIcon image={row.crypto.image} name={row.crypto.name} symbol={row.crypto.symbol} className="h-6 w-6" />
+                    <span className="font-medium">{row.crypto.name}</span>
+                    <span className="text-xs uppercase text-muted-foreground">{row.crypto.symbol}</span>
+                    <FreshnessBadge provenance={row.crypto.provenance} />
+                  </div>
+                </TableCell>
+                {columns.map(column => (
+                  <TableCell key={column.key} className={`font-mono ${column.align === 'right' ? 'text-right' : ''}`}>
+                    {column.render(row)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            {end < visibleRows.length && <tr style={{ height: (visibleRows.length - end) * ROW_HEIGHT }} />}
+          </TableBody>
+        </Table>
+        {visibleRows.length === 0 && (
+          <p className="py-8 text-center text-sm text-muted-foreground">No coins match the filter.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { format } from 'date-fns'
+import { Area, CartesianGrid, Cell, ComposedChart, Line, Pie, PieChart, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { formatPrice } from '@/lib/format'
+import type { Holding, ValuePoint } from '@/lib/portfolio/holdings'
+
+const SLICE_COLORS = [1, 2, 3, 4, 5].map(n => `hsl(var(--chart-${n}))`)
+
+export function AllocationChart({ holdings }: { holdings: Holding[] }) {
+  const data = holdings
+    .filter(holding => holding.value !== null && holding.value > 0)
+    .map(holding => ({ symbol: holding.symbol, value: holding.value! }))
+  const config: ChartConfig = Object.fromEntries(data.map((slice, index) => [
+    slice.symbol,
+    { label: slice.symbol, color: SLICE_COLORS[index % SLICE_COLORS.length] }
+  ]))
+
+  if (data.length === 0) {
+    return <p className="py-16 text-center text-sm text-muted-foreground">No priced holdings.</p>
+  }
+
+  return (
+    <ChartContainer config={config} className="mx-auto aspect-square max-h-[280px]">
+      <PieChart>
+        <ChartTooltip
+          content={<ChartTooltipContent nameKey="symbol" hideLabel formatter={(value, name) => (
+            <div className="flex w-full justify-between gap-4">
+              <span className="text-muted-foreground">{name}</span>
+              <span className="font-mono tabular-nums">{formatPrice(Number(value))}</span>
+            </div>
+          )} />}
+        />
+        <Pie data={data} dataKey="value" nameKey="symbol" innerRadius="55%" strokeWidth={2} isAnimationActive={false}>
+          {data.map(slice => <Cell key={slice.symbol} fill={`var(--color-${slice.symbol})`} />)}
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="symbol" />} className="flex-wrap" />
+      </PieChart>
+    </ChartContainer>
+  )
+}
+
+const valueConfig = {
+  value: { label: 'Value', theme: { light: 'hsl(217 91% 50%)', dark: 'hsl(217 91% 60%)' } },
+  cost: { label: 'Cost basis', theme: { light: 'hsl(215 16% 45%)', dark: 'hsl(215 16% 57%)' } }
+} satisfies ChartConfig
+
+export function ValueHistoryChart({ history }: { history: ValuePoint[] }) {
+  return (
+    <ChartContainer config={valueConfig} className="aspect-auto h-[280px] w-full">
+      <ComposedChart data={history} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="time" tickFormatter={(time: number) => format(time, 'MMM d')} minTickGap={40} axisLine={false} tickLine={false} />
+        <YAxis
+          orientation="right"
+          domain={['auto', 'auto']}
+          tickFormatter={(value: number) => formatPrice(value)}
+          width={90}
+          axisLine={false}
+          tickLine={false}
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent
+            labelFormatter={(_, payload) => payload[0] ? format(payload[0].payload.time, 'MMM d, yyyy') : ''}
+            formatter={(value, name) => (
+              <div className="flex w-full justify-between gap-4">
+                <span className="text-muted-foreground">{valueConfig[name as keyof typeof valueConfig]?.label}</span>
+                <span className="font-mono tabular-nums">{formatPrice(Number(value))}</span>
+              </div>
+            )}
+          />}
+        />
+        <Area dataKey="value" stroke="var(--color-value)" fill="var(--color-value)" fillOpacity={0.15} isAnimationActive={false} />
+        <Line dataKey="cost" stroke="var(--color-cost)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,82 @@
+import { Settings as SettingsIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { useSettings } from '@/hooks/use-settings'
+import { fundingRateAdapters, type FundingExchangeId } from '@/lib/funding'
+import { getMarketDataProvider, marketDataProviders, type MarketDataProviderId } from '@/lib/providers'
+
+export function SettingsDialog() {
+  const { settings, updateSettings } = useSettings()
+  const provider = getMarketDataProvider(settings.marketDataProvider)
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Settings">
+          <SettingsIcon />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Preferences are saved in this browser.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="market-data-provider">Market data provider</Label>
+          <Select
+            value={settings.marketDataProvider}
+            onValueChange={(value) => updateSettings({ marketDataProvider: value as MarketDataProviderId })}
+          >
+            <SelectTrigger id="market-data-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {marketDataProviders.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{provider.description}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="funding-exchange">Funding rates</Label>
+          <Select
+            value={settings.fundingExchange}
+            onValueChange={(value) => updateSettings({ fundingExchange: value as FundingExchangeId })}
+          >
+            <SelectTrigger id="funding-exchange">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {fundingRateAdapters.map((adapter) => (
+                <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Coins not listed on this exchange fall back to the others.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="live-updates">Stream live prices</Label>
+            <p className="text-xs text-muted-foreground">
+              Binance WebSocket ticks. Falls back to polling every 5 seconds if the stream is unavailable.
+            </p>
+          </div>
+          <Switch
+            id="live-updates"
+            checked={settings.liveUpdates === 'stream'}
+            onCheckedChange={(checked) => updateSettings({ liveUpdates: checked ? 'stream' : 'polling' })}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
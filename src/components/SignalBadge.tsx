@@ -0,0 +1,107 @@
+import { Check, Copy, Download, FlaskConical, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { formatPrice } from '@/lib/format'
+import { downloadSignalExplanation, formatSignalValue, type SignalExplanation } from '@/lib/signals/explain'
+
+const SIGNAL_STYLES = {
+  BUY: { color: 'text-green-500', bgColor: 'bg-green-500/10' },
+  SELL: { color: 'text-red-500', bgColor: 'bg-red-500/10' }
+} as const
+
+interface SignalBadgeProps {
+  explanation: SignalExplanation
+  // Opens a paper position in the signal's direction
+  onPaperTrade?: () => void
+}
+
+export function SignalBadge({ explanation, onPaperTrade }: SignalBadgeProps) {
+  if (!explanation.action) return null
+  const style = SIGNAL_STYLES[explanation.action]
+
+  const copyExplanation = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(explanation, null, 2))
+      toast.success('Signal explanation copied')
+    } catch {
+      toast.error('Could not copy to clipboard')
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          onClick={(event) => event.stopPropagation()}
+          className={`absolute top-3 right-3 px-3 py-1.5 rounded-full text-sm font-bold ${style.bgColor} ${style.color} border border-current/20 shadow-lg`}
+          title="Why this signal?"
+        >
+          {explanation.action}
+        </button>
+      </PopoverTrigger>
+      {/* Portaled content still bubbles React events to the card */}
+      <PopoverContent className="w-96" align="end" onClick={(event) => event.stopPropagation()}>
+        <div className="space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold">
+              <span className={style.color}>{explanation.action}</span> {explanation.symbol}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Score {explanation.score} / threshold ±{explanation.threshold}
+            </p>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            At {formatPrice(explanation.price)}, {new Date(explanation.evaluatedAt).toLocaleTimeString()}
+          </p>
+
+          <div className="space-y-2">
+            {explanation.rules.map(rule => (
+              <div key={rule.ruleId} className={`rounded-md border border-border p-2 ${rule.matched ? '' : 'opacity-60'}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{rule.ruleName}</span>
+                  <span className={`font-mono text-xs ${rule.contribution > 0 ? 'text-green-500' : rule.contribution < 0 ? 'text-red-500' : 'text-muted-foreground'}`}>
+                    {rule.contribution > 0 ? '+' : ''}{rule.contribution}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {rule.action} × {rule.weight} when {rule.combinator === 'and' ? 'all' : 'any'} of:
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {rule.conditions.map((condition, index) => (
+                    <li key={index} className="flex items-center gap-1 text-xs">
+                      {condition.passed
+                        ? <Check className="h-3 w-3 text-green-500" />
+                        : <X className="h-3 w-3 text-muted-foreground" />}
+                      <span className="text-muted-foreground">{condition.label}</span>
+                      <span className="font-mono">{formatSignalValue(condition.field, condition.actual)}</span>
+                      <span className="text-muted-foreground">{condition.operator}</span>
+                      <span className="font-mono">{formatSignalValue(condition.field, condition.threshold)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {onPaperTrade && (
+              <Button size="sm" className="mr-auto" onClick={onPaperTrade}>
+                <FlaskConical />
+                Paper {explanation.action === 'BUY' ? 'long' : 'short'}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={copyExplanation}>
+              <Copy />
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => downloadSignalExplanation(explanation)}>
+              <Download />
+              Export JSON
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
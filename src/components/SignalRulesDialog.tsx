@@ -0,0 +1,336 @@
+import { useState, type ChangeEvent } from 'react'
+import { useFieldArray, useForm, type Control } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Plus, RotateCcw, SlidersHorizontal, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { useSignalRules } from '@/hooks/use-signal-rules'
+import {
+  DEFAULT_SIGNAL_RULES,
+  SIGNAL_FIELDS,
+  SIGNAL_OPERATORS,
+  signalRuleSetSchema,
+  type SignalField,
+  type SignalRuleSet
+} from '@/lib/signals/rules'
+
+type RuleSetControl = Control<SignalRuleSet>
+
+// Number inputs report NaN when empty; zod then flags them as invalid
+const numberField = (onChange: (value: number) => void) =>
+  (event: ChangeEvent<HTMLInputElement>) => onChange(event.target.valueAsNumber)
+
+function ConditionsEditor({ control, ruleIndex }: { control: RuleSetControl; ruleIndex: number }) {
+  const { fields, append, remove } = useFieldArray({ control, name: `rules.${ruleIndex}.conditions` })
+
+  return (
+    <div className="space-y-2">
+      {fields.map((condition, index) => (
+        <div key={condition.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`rules.${ruleIndex}.conditions.${index}.field`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger aria-label="Field"><SelectValue /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(SIGNAL_FIELDS) as SignalField[]).map(key => (
+                      <SelectItem key={key} value={key}>{SIGNAL_FIELDS[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`rules.${ruleIndex}.conditions.${index}.operator`}
+            render={({ field }) => (
+              <FormItem className="w-20">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger aria-label="Operator"><SelectValue /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SIGNAL_OPERATORS.map(op => <SelectItem key={op} value={op}>{op}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`rules.${ruleIndex}.conditions.${index}.value`}
+            render={({ field }) => (
+              <FormItem className="w-28">
+                <FormControl>
+                  <Input type="number" step="any" aria-label="Value" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" aria-label="Remove condition" onClick={() => remove(index)}>
+            <Trash2 />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => append({ field: 'priceChange24h', operator: '>', value: 0 })}
+      >
+        <Plus />
+        Condition
+      </Button>
+    </div>
+  )
+}
+
+function OverridesEditor({ control, ruleIndex }: { control: RuleSetControl; ruleIndex: number }) {
+  const { fields, append, remove } = useFieldArray({ control, name: `rules.${ruleIndex}.overrides` })
+
+  return (
+    <div className="space-y-2">
+      {fields.map((override, index) => (
+        <div key={override.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`rules.${ruleIndex}.overrides.${index}.symbol`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input placeholder="BTC" aria-label="Coin symbol" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`rules.${ruleIndex}.overrides.${index}.weight`}
+            render={({ field }) => (
+              <FormItem className="w-24">
+                <FormControl>
+                  <Input type="number" step="any" aria-label="Weight" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`rules.${ruleIndex}.overrides.${index}.enabled`}
+            render={({ field }) => (
+              <FormItem className="pt-2">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} aria-label="Enabled for this coin" />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" aria-label="Remove override" onClick={() => remove(index)}>
+            <Trash2 />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="ghost" size="sm" onClick={() => append({ symbol: '', enabled: true, weight: 1 })}>
+        <Plus />
+        Per-coin override
+      </Button>
+    </div>
+  )
+}
+
+export function SignalRulesDialog() {
+  const [open, setOpen] = useState(false)
+  const { ruleSet, setRuleSet } = useSignalRules()
+
+  const form = useForm<SignalRuleSet>({
+    resolver: zodResolver(signalRuleSetSchema),
+    values: ruleSet
+  })
+  const { fields: rules, append, remove } = useFieldArray({ control: form.control, name: 'rules' })
+
+  const onSubmit = (values: SignalRuleSet) => {
+    setRuleSet(values)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Signal rules">
+          <SlidersHorizontal />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Signal rules</DialogTitle>
+          <DialogDescription>
+            Matching BUY rules add their weight to a coin's score and SELL rules subtract it.
+            A signal is shown once the score reaches the threshold.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <ScrollArea className="h-[60vh] pr-4">
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="threshold"
+                  render={({ field }) => (
+                    <FormItem className="max-w-xs">
+                      <FormLabel>Score threshold</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="any" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {rules.map((rule, index) => (
+                  <div key={rule.id} className="space-y-3 rounded-lg border border-border p-4">
+                    <div className="flex items-start gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`rules.${index}.name`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <FormControl>
+                              <Input aria-label="Rule name" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`rules.${index}.enabled`}
+                        render={({ field }) => (
+                          <FormItem className="pt-2">
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} aria-label="Rule enabled" />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                      <Button type="button" variant="ghost" size="icon" aria-label="Delete rule" onClick={() => remove(index)}>
+                        <Trash2 />
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`rules.${index}.action`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Action</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="BUY">BUY</SelectItem>
+                                <SelectItem value="SELL">SELL</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`rules.${index}.weight`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Weight</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="any" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`rules.${index}.combinator`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Match</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="and">All conditions (AND)</SelectItem>
+                                <SelectItem value="or">Any condition (OR)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <ConditionsEditor control={form.control} ruleIndex={index} />
+                    <FormField
+                      control={form.control}
+                      name={`rules.${index}.conditions`}
+                      render={() => (
+                        <FormItem>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="space-y-2 border-t border-border pt-3">
+                      <FormDescription>Per-coin overrides replace this rule's weight and on/off state for one coin.</FormDescription>
+                      <OverridesEditor control={form.control} ruleIndex={index} />
+                    </div>
+                  </div>
+                ))}
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => append({
+                    id: crypto.randomUUID(),
+                    name: 'New rule',
+                    enabled: true,
+                    action: 'BUY',
+                    weight: 1,
+                    combinator: 'and',
+                    conditions: [{ field: 'priceChange24h', operator: '>', value: 0 }],
+                    overrides: []
+                  })}
+                >
+                  <Plus />
+                  Add rule
+                </Button>
+              </div>
+            </ScrollArea>
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              <Button type="button" variant="ghost" onClick={() => form.reset(DEFAULT_SIGNAL_RULES)}>
+                <RotateCcw />
+                Restore defaults
+              </Button>
+              <Button type="submit">Save rules</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,126 @@
+import { useCallback, useMemo, type HTMLAttributes, type ReactNode } from 'react'
+import {
+  DndContext,
+  KeyboardCode,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type Announcements,
+  type DragEndEvent,
+  type KeyboardCoordinateGetter,
+  type UniqueIdentifier
+} from '@dnd-kit/core'
+import { cn } from '@/lib/utils'
+
+const DIRECTIONS: string[] = [KeyboardCode.Up, KeyboardCode.Down, KeyboardCode.Left, KeyboardCode.Right]
+
+// Arrow keys jump straight to the nearest card in that direction instead of
+// nudging 25px at a time, so a keyboard drag lands on a card every press
+const cardCoordinates: KeyboardCoordinateGetter = (event, { active, context }) => {
+  const { collisionRect, droppableRects, droppableContainers } = context
+  if (!DIRECTIONS.includes(event.code) || !collisionRect) return undefined
+  event.preventDefault()
+
+  const candidates = droppableContainers.getEnabled().flatMap((container) => {
+    const rect = droppableRects.get(container.id)
+    if (container.id === active || !rect) return []
+    const sameRow = Math.abs(rect.top - collisionRect.top) < collisionRect.height / 2
+    const matches = {
+      [KeyboardCode.Right]: sameRow && rect.left > collisionRect.left,
+      [KeyboardCode.Left]: sameRow && rect.left < collisionRect.left,
+      [KeyboardCode.Down]: rect.top > collisionRect.top + collisionRect.height / 2,
+      [KeyboardCode.Up]: rect.top < collisionRect.top - collisionRect.height / 2
+    }[event.code]
+    return matches ? [rect] : []
+  })
+
+  const distance = (rect: { left: number; top: number }) =>
+    Math.hypot(rect.left - collisionRect.left, rect.top - collisionRect.top)
+  const [nearest] = candidates.sort((a, b) => distance(a) - distance(b))
+  return nearest ? { x: nearest.left, y: nearest.top } : undefined
+}
+
+interface SortableItemProps {
+  id: string
+  children: (dragHandleProps: HTMLAttributes<HTMLButtonElement>) => ReactNode
+}
+
+// Every card is both draggable and a drop target; dropping on a card takes
+// its place in the order
+function SortableItem({ id, children }: SortableItemProps) {
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id })
+  const setNodeRef = useCallback((node: HTMLElement | null) => {
+    setDragRef(node)
+    setDropRef(node)
+  }, [setDragRef, setDropRef])
+  // Stable between renders so memoized cards don't re-render for nothing
+  const dragHandleProps = useMemo(() => ({ ...attributes, ...listeners }), [attributes, listeners])
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      className={cn(
+        'rounded-lg',
+        isDragging && 'relative z-10 opacity-90 shadow-2xl',
+        isOver && !isDragging && 'ring-2 ring-accent ring-offset-2 ring-offset-background'
+      )}
+    >
+      {children(dragHandleProps)}
+    </div>
+  )
+}
+
+interface SortableCardGridProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  // Spoken name of an item for screen reader announcements
+  getLabel: (item: T) => string
+  onMove: (key: string, overKey: string) => void
+  className?: string
+  children: (item: T, dragHandleProps: HTMLAttributes<HTMLButtonElement>) => ReactNode
+}
+
+export function SortableCardGrid<T>({ items, getKey, getLabel, onMove, className, children }: SortableCardGridProps<T>) {
+  const sensors = useSensors(
+    // A short drag threshold keeps clicks on the handle from starting a drag
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: cardCoordinates })
+  )
+
+  const label = (id: UniqueIdentifier) => {
+    const item = items.find(i => getKey(i) === id)
+    return item ? getLabel(item) : String(id)
+  }
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => `Picked up ${label(active.id)}.`,
+    onDragOver: ({ active, over }) => over
+      ? `${label(active.id)} is over ${label(over.id)}.`
+      : `${label(active.id)} is not over a card.`,
+    onDragEnd: ({ active, over }) => over
+      ? `${label(active.id)} was moved to the position of ${label(over.id)}.`
+      : `${label(active.id)} was dropped in place.`,
+    onDragCancel: ({ active }) => `Reordering cancelled. ${label(active.id)} stays where it was.`
+  }
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (over && active.id !== over.id) onMove(String(active.id), String(over.id))
+  }
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd} accessibility={{ announcements }}>
+      <div className={className}>
+        {items.map(item => (
+          <SortableItem key={getKey(item)} id={getKey(item)}>
+            {(dragHandleProps) => children(item, dragHandleProps)}
+          </SortableItem>
+        ))}
+      </div>
+    </DndContext>
+  )
+}
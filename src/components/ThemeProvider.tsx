@@ -0,0 +1,19 @@
+import { useEffect, type ReactNode } from 'react'
+import { ThemeProvider as NextThemesProvider } from 'next-themes'
+import { useSettings } from '@/hooks/use-settings'
+
+// Light/dark/system is owned by next-themes (a class on <html>); high
+// contrast is a separate setting layered on top as a `contrast` class
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const { settings } = useSettings()
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('contrast', settings.highContrast)
+  }, [settings.highContrast])
+
+  return (
+    <NextThemesProvider attribute="class" defaultTheme="dark" enableSystem storageKey="long-or-short:theme" disableTransitionOnChange>
+      {children}
+    </NextThemesProvider>
+  )
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react'
+import { Check, ListPlus, Plus, RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from '@/components/ui/command'
+import { CoinIcon } from '@/components/CoinIcon'
+import { useWatchlist } from '@/hooks/use-watchlist'
+import type { CoinInfo } from '@/lib/coins'
+import type { MarketDataProvider } from '@/lib/providers'
+
+interface WatchlistDialogProps {
+  provider: MarketDataProvider
+}
+
+export function WatchlistDialog({ provider }: WatchlistDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [coinList, setCoinList] = useState<CoinInfo[]>([])
+  const [loadingList, setLoadingList] = useState(false)
+  const { watchlist, hasCoin, addCoin, removeCoin, resetWatchlist } = useWatchlist()
+
+  // Load the provider's coin universe whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    const controller = new AbortController()
+    setLoadingList(true)
+    provider.fetchCoinList(controller.signal)
+      .then(setCoinList)
+      .catch((error) => {
+        if (!controller.signal.aborted) console.warn(`${provider.name} coin list failed:`, error)
+      })
+      .finally(() => setLoadingList(false))
+
+    return () => controller.abort()
+  }, [open, provider])
+
+  const available = coinList.filter(coin => !hasCoin(coin.symbol))
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <ListPlus />
+        Watchlist
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen}>
+        <CommandInput placeholder={`Search ${provider.name} coins...`} />
+        <CommandList>
+          <CommandEmpty>{loadingList ? 'Loading coins...' : 'No coins found.'}</CommandEmpty>
+
+          <CommandGroup heading={`Watching (${watchlist.length})`}>
+            {watchlist.map((coin) => (
+              <CommandItem
+                key={coin.symbol}
+                value={`watching ${coin.symbol} ${coin.name}`}
+                onSelect={() => removeCoin(coin.symbol)}
+              >
+                <CoinIcon image={coin.image} name={coin.name} symbol={coin.symbol} className="h-5 w-5" />
+                <span>{coin.name}</span>
+                <span className="text-xs uppercase text-muted-foreground">{coin.symbol}</span>
+                <Check className="ml-auto text-accent" />
+                <X className="text-muted-foreground" />
+              </CommandItem>
+            ))}
+            <CommandItem value="reset default watchlist" onSelect={resetWatchlist}>
+              <RotateCcw />
+              Reset to default coins
+            </CommandItem>
+          </CommandGroup>
+
+          <CommandSeparator />
+
+          <CommandGroup heading="Add coins">
+            {available.map((coin) => (
+              <CommandItem
+                key={coin.id}
+                value={`${coin.symbol} ${coin.name} ${coin.id}`}
+                onSelect={() => addCoin(coin)}
+              >
+                <CoinIcon image={coin.image} name={coin.name} symbol={coin.symbol} className="h-5 w-5" />
+                <span>{coin.name}</span>
+                <span className="text-xs uppercase text-muted-foreground">{coin.symbol}</span>
+                <Plus className="ml-auto text-muted-foreground" />
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
@@ -0,0 +1,165 @@
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import { Copy, Download, MoreHorizontal, Pencil, Plus, Trash2, Upload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem
+} from '@/components/ui/sidebar'
+import { useWorkspaces } from '@/hooks/use-workspaces'
+import {
+  DEFAULT_WORKSPACE_ID,
+  downloadWorkspace,
+  exportWorkspace,
+  parseWorkspaceJson,
+  type Workspace
+} from '@/lib/workspaces'
+
+// Null when closed; `workspace` is set when renaming rather than creating
+interface NameDialogState {
+  workspace: Workspace | null
+  name: string
+}
+
+export function WorkspaceSidebar() {
+  const { workspaces, active, switchWorkspace, createWorkspace, duplicateWorkspace, renameWorkspace, removeWorkspace } = useWorkspaces()
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null)
+
+  const submitName = (event: FormEvent) => {
+    event.preventDefault()
+    if (!nameDialog) return
+    const name = nameDialog.name.trim()
+    if (!name) return
+    if (nameDialog.workspace) renameWorkspace(nameDialog.workspace.id, name)
+    else createWorkspace(name)
+    setNameDialog(null)
+  }
+
+  const importJson = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const data = parseWorkspaceJson(await file.text())
+      createWorkspace(data.name, data)
+      toast.success(`Imported workspace "${data.name}"`)
+    } catch (error) {
+      toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Could not read file'}`)
+    }
+  }
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <p className="px-2 pt-2 text-lg font-semibold">Workspaces</p>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Boards</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {workspaces.map(workspace => (
+                  <SidebarMenuItem key={workspace.id}>
+                    <SidebarMenuButton
+                      isActive={workspace.id === active.id}
+                      onClick={() => switchWorkspace(workspace.id)}
+                    >
+                      <span className="truncate">{workspace.name}</span>
+                    </SidebarMenuButton>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover aria-label={`${workspace.name} options`}>
+                          <MoreHorizontal />
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onSelect={() => setNameDialog({ workspace, name: workspace.name })}>
+                          <Pencil />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => duplicateWorkspace(workspace.id)}>
+                          <Copy />
+                          Duplicate
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => downloadWorkspace(exportWorkspace(workspace))}>
+                          <Download />
+                          Export JSON
+                        </DropdownMenuItem>
+                        {workspace.id !== DEFAULT_WORKSPACE_ID && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem className="text-red-500" onSelect={() => removeWorkspace(workspace.id)}>
+                              <Trash2 />
+                              Delete
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+        <SidebarFooter>
+          <p className="px-2 text-xs text-muted-foreground">
+            Each workspace keeps its own coins, view, signal rules and card layout.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => setNameDialog({ workspace: null, name: '' })}>
+            <Plus />
+            New workspace
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <label className="cursor-pointer">
+              <Upload />
+              Import JSON
+              <input type="file" accept=".json,application/json" className="sr-only" onChange={importJson} />
+            </label>
+          </Button>
+        </SidebarFooter>
+      </Sidebar>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.workspace ? 'Rename workspace' : 'New workspace'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submitName} className="space-y-4">
+            <Input
+              autoFocus
+              placeholder="e.g. Funding arb"
+              aria-label="Workspace name"
+              value={nameDialog?.name ?? ''}
+              onChange={(e) => setNameDialog(prev => prev && { ...prev, name: e.target.value })}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!nameDialog?.name.trim()}>
+                {nameDialog?.workspace ? 'Rename' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -6,7 +6,16 @@ import * as RechartsPrimitive from "recharts"
 import { cn } from "@/lib/utils"
 
 // Format: { THEME_NAME: CSS_SELECTOR }
-const THEMES = { light: "", dark: ".dark" } as const
+// Matches the classes ThemeProvider puts on <html>. The high-contrast entries
+// come last and are more specific, so they override the base theme when set.
+const THEMES = {
+  light: "",
+  dark: ".dark",
+  contrast: ".contrast",
+  darkContrast: ".dark.contrast",
+} as const
+
+type BaseTheme = "light" | "dark"
 
 export type ChartConfig = {
   [k in string]: {
@@ -14,7 +23,11 @@ export type ChartConfig = {
     icon?: React.ComponentType
   } & (
     | { color?: string; theme?: never }
-    | { color?: never; theme: Record<keyof typeof THEMES, string> }
+    | {
+        color?: never
+        theme: Record<BaseTheme, string> &
+          Partial<Record<Exclude<keyof typeof THEMES, BaseTheme>, string>>
+      }
   )
 }
 
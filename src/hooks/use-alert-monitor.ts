@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react'
+import {
+  alertKey,
+  evaluateAlerts,
+  recordPrices,
+  type MarketSnapshot,
+  type PriceHistory
+} from '@/lib/alerts/evaluate'
+import { deliverAlerts } from '@/lib/alerts/notify'
+import { isStale } from '@/lib/provenance'
+import type { CryptoData, FundingRateData } from '@/types/crypto'
+import { useAlerts } from './use-alerts'
+import { useOnlineStatus } from './use-online-status'
+import { useSettings } from './use-settings'
+import type { EvaluatedSignal } from './use-signal-recorder'
+
+// Evaluates every alert against each data refresh and delivers what fired.
+// Offline, and on data that has gone stale (a restored snapshot), evaluation
+// waits: the last evaluated prices stay as the baseline, so a level crossed
+// while offline still fires once fresh data arrives.
+export function useAlertMonitor(cryptoData: CryptoData[], fundingRates: FundingRateData, signals: EvaluatedSignal[]) {
+  const { alerts, markTriggered } = useAlerts()
+  const { settings } = useSettings()
+  const online = useOnlineStatus()
+  const previous = useRef<MarketSnapshot | null>(null)
+  const history = useRef<PriceHistory>({})
+  const lastFired = useRef(new Map<string, number>())
+
+  useEffect(() => {
+    if (!online) return
+    const now = Date.now()
+    const fresh = cryptoData.filter(crypto => !isStale(crypto.provenance.fetchedAt, now))
+    if (fresh.length === 0) return
+
+    const actions = new Map(signals.map(({ explanation }) => [explanation.symbol, explanation.action]))
+    const snapshot: MarketSnapshot = Object.fromEntries(fresh.map((crypto) => {
+      const symbol = crypto.symbol.toUpperCase()
+      const funding = fundingRates[symbol]
+      return [symbol, {
+        price: crypto.current_price,
+        fundingRate: funding ? funding.rate * 100 : null,
+        action: actions.get(symbol) ?? null,
+        high24h: crypto.high_24h,
+        low24h: crypto.low_24h
+      }]
+    }))
+
+    history.current = { ...history.current, ...recordPrices(history.current, snapshot, now) }
+    const triggers = evaluateAlerts(alerts, snapshot, previous.current, history.current, lastFired.current, now)
+    // Coins skipped this time keep their last evaluated values
+    previous.current = { ...previous.current, ...snapshot }
+
+    if (triggers.length === 0) return
+    for (const trigger of triggers) lastFired.current.set(alertKey(trigger.alertId, trigger.symbol), now)
+    deliverAlerts(triggers, { notifications: settings.alertNotifications, sound: settings.alertSound })
+    markTriggered([...new Set(triggers.map(trigger => trigger.alertId))], now)
+  }, [cryptoData, fundingRates, signals, online]) // eslint-disable-line react-hooks/exhaustive-deps
+}
@@ -0,0 +1,46 @@
+import { useCallback, useMemo } from 'react'
+import { z } from 'zod'
+import { alertSchema, type Alert, type NewAlert } from '@/lib/alerts/rules'
+import { usePersistentState } from './use-persistent-state'
+
+const alertListSchema = z.array(alertSchema)
+const NO_ALERTS: Alert[] = []
+
+export function useAlerts() {
+  const [stored, setStored] = usePersistentState<unknown>('alerts', NO_ALERTS)
+
+  // Drop the whole list rather than evaluate alerts we can't trust
+  const alerts = useMemo<Alert[]>(() => {
+    const parsed = alertListSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored alerts are invalid, ignoring them:', parsed.error)
+      return NO_ALERTS
+    }
+    return parsed.data
+  }, [stored])
+
+  const update = useCallback((fn: (alerts: Alert[]) => Alert[]) => {
+    setStored((prev: unknown) => {
+      const parsed = alertListSchema.safeParse(prev)
+      return fn(parsed.success ? parsed.data : [])
+    })
+  }, [setStored])
+
+  const addAlert = useCallback((alert: NewAlert) => {
+    update(prev => [...prev, { ...alert, id: crypto.randomUUID(), enabled: true, createdAt: Date.now(), lastTriggeredAt: null }])
+  }, [update])
+
+  const setAlertEnabled = useCallback((id: string, enabled: boolean) => {
+    update(prev => prev.map(alert => alert.id === id ? { ...alert, enabled } : alert))
+  }, [update])
+
+  const removeAlert = useCallback((id: string) => {
+    update(prev => prev.filter(alert => alert.id !== id))
+  }, [update])
+
+  const markTriggered = useCallback((ids: string[], time: number) => {
+    update(prev => prev.map(alert => ids.includes(alert.id) ? { ...alert, lastTriggeredAt: time } : alert))
+  }, [update])
+
+  return { alerts, addAlert, setAlertEnabled, removeAlert, markTriggered }
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+import type { CoinInfo } from '@/lib/coins'
+import type { MarketDataProvider } from '@/lib/providers'
+import type { Candle, CandleInterval } from '@/types/crypto'
+
+const CANDLE_LIMIT = 120
+
+export function useCandles(provider: MarketDataProvider, coin: CoinInfo | undefined, interval: CandleInterval) {
+  const [candles, setCandles] = useState<Candle[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const symbol = coin?.symbol
+
+  useEffect(() => {
+    if (!coin) return
+
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+
+    provider.fetchCandles(coin, interval, CANDLE_LIMIT, controller.signal)
+      .then(setCandles)
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        console.error('Candle fetch error:', err)
+        setCandles([])
+        setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [provider, symbol, interval]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return { candles, loading, error }
+}
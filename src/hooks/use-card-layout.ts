@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react'
+import { cardLayoutSchema, DEFAULT_CARD_LAYOUT, moveCard, toggleKey, type CardLayout } from '@/lib/card-layout'
+import { useWorkspaceState } from './use-workspaces'
+
+export function useCardLayout() {
+  const [stored, setStored] = useWorkspaceState<unknown>('card-layout', DEFAULT_CARD_LAYOUT)
+
+  const layout = useMemo<CardLayout>(() => {
+    const parsed = cardLayoutSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored card layout is invalid, using the default order:', parsed.error)
+      return DEFAULT_CARD_LAYOUT
+    }
+    return parsed.data
+  }, [stored])
+
+  const update = useCallback((fn: (layout: CardLayout) => CardLayout) => {
+    setStored((prev: unknown) => {
+      const parsed = cardLayoutSchema.safeParse(prev)
+      return fn(parsed.success ? parsed.data : DEFAULT_CARD_LAYOUT)
+    })
+  }, [setStored])
+
+  const move = useCallback((arranged: string[], key: string, overKey: string) => {
+    update(prev => moveCard(prev, arranged, key, overKey))
+  }, [update])
+
+  const togglePinned = useCallback((key: string) => {
+    update(prev => ({ ...prev, pinned: toggleKey(prev.pinned, key) }))
+  }, [update])
+
+  const toggleCollapsed = useCallback((key: string) => {
+    update(prev => ({ ...prev, collapsed: toggleKey(prev.collapsed, key) }))
+  }, [update])
+
+  const resetLayout = useCallback(() => update(() => DEFAULT_CARD_LAYOUT), [update])
+
+  return { layout, move, togglePinned, toggleCollapsed, resetLayout }
+}
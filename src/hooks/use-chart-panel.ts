@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react'
+
+export interface ChartPanelContextValue {
+  openChart: (symbol: string) => void
+}
+
+export const ChartPanelContext = createContext<ChartPanelContextValue | null>(null)
+
+export function useChartPanel() {
+  const context = useContext(ChartPanelContext)
+  if (!context) throw new Error('useChartPanel must be used within a <ChartPanelProvider />')
+  return context
+}
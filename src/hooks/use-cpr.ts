@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import type { CoinInfo } from '@/lib/coins'
+import { computeCprSet, type CprSet } from '@/lib/indicators/cpr'
+import type { MarketDataProvider } from '@/lib/providers'
+
+// Enough daily candles to always cover the previous calendar month
+const DAILY_CANDLES = 62
+const REFRESH_INTERVAL = 15 * 60 * 1000
+
+// CPR levels only change when a period closes, so they are refreshed far less
+// often than prices
+export function useCprLevels(provider: MarketDataProvider, coins: CoinInfo[]) {
+  const [levels, setLevels] = useState<Record<string, CprSet>>({})
+  const coinsKey = coins.map(coin => coin.symbol).join(',')
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const load = async () => {
+      const results = await Promise.allSettled(coins.map(async (coin) => {
+        const candles = await provider.fetchCandles(coin, '1d', DAILY_CANDLES, controller.signal)
+        return [coin.symbol.toUpperCase(), computeCprSet(candles)] as const
+      }))
+      if (controller.signal.aborted) return
+
+      setLevels(Object.fromEntries(results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])))
+    }
+
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL)
+
+    return () => {
+      controller.abort()
+      clearInterval(interval)
+    }
+  }, [provider, coinsKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return levels
+}
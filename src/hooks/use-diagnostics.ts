@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { clearDroppedItems, getDroppedItems, subscribeDiagnostics } from '@/lib/diagnostics'
+
+export function useDiagnostics() {
+  const dropped = useSyncExternalStore(subscribeDiagnostics, getDroppedItems)
+  return { dropped, clear: clearDroppedItems }
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react'
+import { isStale, STALE_AFTER_MS } from '@/lib/provenance'
+
+// Whether data fetched at `fetchedAt` has gone stale. Re-renders once, at the
+// moment it crosses the threshold, rather than ticking a clock.
+export function useIsStale(fetchedAt: number | null | undefined) {
+  const [now, setNow] = useState(() => Date.now())
+  const stale = fetchedAt != null && isStale(fetchedAt, now)
+
+  useEffect(() => {
+    if (fetchedAt == null || stale) return
+    // Also corrects `now` right away when cached data older than the last
+    // render arrives
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, fetchedAt + STALE_AFTER_MS - Date.now()) + 1)
+    return () => clearTimeout(timer)
+  }, [fetchedAt, stale])
+
+  return stale
+}
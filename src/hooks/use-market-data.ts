@@ -0,0 +1,37 @@
+import { useSyncExternalStore } from 'react'
+import {
+  getMarketState,
+  selectCoin,
+  selectFundingRate,
+  selectMarketList,
+  subscribeMarket,
+  type MarketState
+} from '@/lib/market-store'
+
+// `selector` must return something already in the state (or memoized on it);
+// a fresh object on every call would re-render forever
+export function useMarketSelector<T>(selector: (state: MarketState) => T) {
+  return useSyncExternalStore(subscribeMarket, () => selector(getMarketState()))
+}
+
+export function useMarkets() {
+  return useMarketSelector(selectMarketList)
+}
+
+export function useFundingRates() {
+  return useMarketSelector(state => state.fundingRates)
+}
+
+export function useCoin(symbol: string) {
+  return useMarketSelector(state => selectCoin(state, symbol))
+}
+
+export function useFundingRate(symbol: string) {
+  return useMarketSelector(state => selectFundingRate(state, symbol))
+}
+
+export function useMarketStatus() {
+  const loading = useMarketSelector(state => state.loading)
+  const error = useMarketSelector(state => state.error)
+  return { loading, error }
+}
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type { CoinInfo } from '@/lib/coins'
+import type { FundingExchangeId } from '@/lib/funding'
+import { createMarketFeed } from '@/lib/market-feed'
+import type { MarketDataProvider } from '@/lib/providers'
+
+// Polls the provider into the market store. Rendering reads from the store,
+// so nothing here causes a re-render by itself. Returns a function that
+// fetches again right away.
+export function useMarketFeed(
+  provider: MarketDataProvider,
+  watchlist: CoinInfo[],
+  fundingExchange: FundingExchangeId,
+  refreshInterval: number
+) {
+  const watchlistKey = watchlist.map(coin => coin.symbol).join(',')
+  const fetchNowRef = useRef<() => void>(() => {})
+
+  useEffect(() => {
+    // Auto-refresh every 5 seconds, or every minute while streaming. Hidden
+    // or offline tabs skip their ticks (the scheduler would hold or fail the
+    // requests anyway) and catch up as soon as they are back.
+    const canFetch = () => !document.hidden && navigator.onLine
+    const feed = createMarketFeed({ provider, watchlist, fundingExchange, refreshInterval, shouldPoll: canFetch })
+    fetchNowRef.current = feed.fetchNow
+    feed.start()
+
+    const onResume = () => {
+      if (canFetch()) feed.poll()
+    }
+    document.addEventListener('visibilitychange', onResume)
+    window.addEventListener('online', onResume)
+
+    return () => {
+      feed.stop()
+      document.removeEventListener('visibilitychange', onResume)
+      window.removeEventListener('online', onResume)
+    }
+  }, [provider.id, fundingExchange, refreshInterval, watchlistKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return useCallback(() => fetchNowRef.current(), [])
+}
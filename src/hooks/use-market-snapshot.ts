@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react'
+import { saveMarketSnapshot } from '@/lib/snapshot'
+import type { CryptoData, FundingRateData } from '@/types/crypto'
+import type { EvaluatedSignal } from './use-signal-recorder'
+
+const SAVE_INTERVAL = 30_000
+
+// Persists the real (non-demo) market data and its signals for offline
+// starts. Saves at most every 30s, and only when something newer than the
+// last save has arrived, so a restored snapshot is never written back.
+export function useMarketSnapshot(markets: CryptoData[], fundingRates: FundingRateData, signals: EvaluatedSignal[]) {
+  const lastSave = useRef({ at: 0, newestFetchedAt: 0 })
+
+  useEffect(() => {
+    if (markets.length === 0) return
+    const now = Date.now()
+    const newestFetchedAt = Math.max(...markets.map(market => market.provenance.fetchedAt))
+    if (newestFetchedAt <= lastSave.current.newestFetchedAt || now - lastSave.current.at < SAVE_INTERVAL) return
+
+    lastSave.current = { at: now, newestFetchedAt }
+    saveMarketSnapshot({
+      coins: markets,
+      fundingRates,
+      signals: signals.map(({ explanation }) => explanation)
+    }).catch((error) => {
+      console.warn('Failed to save market snapshot:', error)
+    })
+  }, [markets, fundingRates, signals])
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react'
+import { fetchFundingRates, type FundingExchangeId } from '@/lib/funding'
+import type { MarketDataProvider } from '@/lib/providers'
+import type { CryptoData, FundingRateData } from '@/types/crypto'
+
+export const MARKET_UNIVERSE_SIZES = [50, 100, 250] as const
+
+// Loads the provider's top `size` coins (by market cap on CoinGecko, by 24h
+// volume on Binance) with their funding rates. This is a one-off snapshot
+// rather than a live feed: hundreds of coins on the dashboard's refresh
+// interval would exhaust the free API tiers.
+export function useMarketUniverse(provider: MarketDataProvider, fundingExchange: FundingExchangeId, size: number) {
+  const [markets, setMarkets] = useState<CryptoData[]>([])
+  const [fundingRates, setFundingRates] = useState<FundingRateData>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [loadedAt, setLoadedAt] = useState<Date | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+    setError(null)
+
+    const load = async () => {
+      const coins = (await provider.fetchCoinList(controller.signal)).slice(0, size)
+      const [nextMarkets, nextFunding] = await Promise.all([
+        provider.fetchMarkets(coins, controller.signal),
+        fetchFundingRates(coins.map(coin => coin.symbol), fundingExchange, controller.signal).catch((fundingError) => {
+          console.warn('Universe funding fetch failed, continuing without it:', fundingError)
+          return {}
+        })
+      ])
+      if (controller.signal.aborted) return
+      setMarkets(nextMarkets)
+      setFundingRates(nextFunding)
+      setLoadedAt(new Date())
+    }
+
+    load()
+      .catch((loadError) => {
+        if (controller.signal.aborted) return
+        console.error('Market universe fetch failed:', loadError)
+        setError(loadError instanceof Error ? loadError.message : 'Could not load markets')
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [provider, fundingExchange, size, reloadCount])
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), [])
+
+  return { markets, fundingRates, loading, error, loadedAt, reload }
+}
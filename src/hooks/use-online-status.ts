@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react'
+
+function subscribe(listener: () => void) {
+  window.addEventListener('online', listener)
+  window.addEventListener('offline', listener)
+  return () => {
+    window.removeEventListener('online', listener)
+    window.removeEventListener('offline', listener)
+  }
+}
+
+// navigator.onLine only knows whether there is a network at all, not whether
+// the APIs are reachable; failed fetches still have to be handled
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribe, () => navigator.onLine)
+}
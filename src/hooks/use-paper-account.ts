@@ -0,0 +1,39 @@
+import { useCallback } from 'react'
+import toast from 'react-hot-toast'
+import {
+  closePosition,
+  DEFAULT_PAPER_ACCOUNT,
+  openPosition,
+  type PaperAccount,
+  type PaperSettings,
+  type PositionSide
+} from '@/lib/paper/account'
+import { usePersistentState } from './use-persistent-state'
+
+export function usePaperAccount() {
+  const [account, setAccount] = usePersistentState<PaperAccount>('paper-account', DEFAULT_PAPER_ACCOUNT)
+
+  const open = useCallback((symbol: string, side: PositionSide, price: number) => {
+    try {
+      setAccount(prev => openPosition(prev, symbol, side, price, 'manual'))
+      toast.success(`Paper ${side} opened on ${symbol.toUpperCase()}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not open position')
+    }
+  }, [setAccount])
+
+  const close = useCallback((id: string, price: number) => {
+    setAccount(prev => closePosition(prev, id, price, 'manual'))
+  }, [setAccount])
+
+  const updateSettings = useCallback((patch: Partial<PaperSettings>) => {
+    setAccount(prev => ({ ...prev, settings: { ...prev.settings, ...patch } }))
+  }, [setAccount])
+
+  // Keeps the sizing settings, wipes balance, positions and history
+  const reset = useCallback(() => {
+    setAccount(prev => ({ ...DEFAULT_PAPER_ACCOUNT, settings: prev.settings }))
+  }, [setAccount])
+
+  return { account, setAccount, open, close, updateSettings, reset }
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react'
+import toast from 'react-hot-toast'
+import { formatPrice } from '@/lib/format'
+import { closePosition, openPosition, settleAccount, type PaperAccount } from '@/lib/paper/account'
+import type { SignalAction } from '@/lib/signals/rules'
+import type { CryptoData, FundingRateData } from '@/types/crypto'
+import type { EvaluatedSignal } from './use-signal-recorder'
+import { usePaperAccount } from './use-paper-account'
+
+// Keeps the paper account in step with live data: charges funding, checks
+// liquidations and, with auto-follow on, trades every signal change
+export function usePaperTrader(cryptoData: CryptoData[], fundingRates: FundingRateData, signals: EvaluatedSignal[]) {
+  const { account, setAccount } = usePaperAccount()
+  // Last action per symbol; the first evaluation after load is only a baseline
+  const lastActions = useRef(new Map<string, SignalAction | null>())
+
+  useEffect(() => {
+    if (cryptoData.length === 0) return
+    const prices = Object.fromEntries(cryptoData.map(crypto => [crypto.symbol.toUpperCase(), crypto.current_price]))
+    const { account: settled, liquidated } = settleAccount(account, prices, fundingRates)
+
+    let next: PaperAccount = settled
+    if (account.settings.autoFollow) {
+      for (const { explanation } of signals) {
+        const previous = lastActions.current.get(explanation.symbol)
+        if (previous === undefined || previous === explanation.action || !explanation.action) continue
+
+        const side = explanation.action === 'BUY' ? 'long' : 'short'
+        const positions = next.positions.filter(p => p.symbol === explanation.symbol)
+        for (const position of positions.filter(p => p.side !== side)) {
+          next = closePosition(next, position.id, explanation.price, 'signal')
+        }
+        if (positions.some(p => p.side === side)) continue
+
+        try {
+          next = openPosition(next, explanation.symbol, side, explanation.price, 'auto')
+          toast(`Auto-follow: ${side} ${explanation.symbol} at ${formatPrice(explanation.price)}`)
+        } catch (error) {
+          toast.error(`Auto-follow skipped ${explanation.symbol}: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+    }
+    lastActions.current = new Map(signals.map(({ explanation }) => [explanation.symbol, explanation.action]))
+
+    for (const trade of liquidated) {
+      toast.error(`Paper ${trade.side} on ${trade.symbol} liquidated at ${formatPrice(trade.exitPrice)}`)
+    }
+    if (next !== account) setAccount(next)
+  }, [cryptoData, fundingRates, signals]) // eslint-disable-line react-hooks/exhaustive-deps
+}
@@ -0,0 +1,14 @@
+import { useCallback, useSyncExternalStore } from 'react'
+import { readStorage, subscribeStorage, writeStorage } from '@/lib/storage'
+
+export function usePersistentState<T>(key: string, initialValue: T) {
+  const subscribe = useCallback((listener: () => void) => subscribeStorage(key, listener), [key])
+  const value = useSyncExternalStore(subscribe, () => readStorage(key, initialValue))
+
+  const setValue = useCallback((next: T | ((prev: T) => T)) => {
+    const prev = readStorage(key, initialValue)
+    writeStorage(key, typeof next === 'function' ? (next as (prev: T) => T)(prev) : next)
+  }, [key, initialValue])
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+import type { MarketDataProvider } from '@/lib/providers'
+import { computeValueHistory, lotTime, type Lot, type ValuePoint } from '@/lib/portfolio/holdings'
+import type { Candle } from '@/types/crypto'
+
+const DAY = 86_400_000
+// One year of daily candles in a single request
+const MAX_DAYS = 365
+
+export function usePortfolioHistory(provider: MarketDataProvider, lots: Lot[]) {
+  const [history, setHistory] = useState<ValuePoint[]>([])
+  const [loading, setLoading] = useState(false)
+  const lotsKey = lots.map(lot => `${lot.id}:${lot.symbol}:${lot.quantity}:${lot.date}`).join(',')
+
+  useEffect(() => {
+    if (lots.length === 0) {
+      setHistory([])
+      return
+    }
+
+    const controller = new AbortController()
+    const symbols = [...new Set(lots.map(lot => lot.symbol))]
+    const start = Math.min(...lots.map(lotTime))
+    const days = Math.min(MAX_DAYS, Math.ceil((Date.now() - start) / DAY) + 1)
+    setLoading(true)
+
+    Promise.allSettled(symbols.map(symbol => provider.fetchCandles(
+      { id: symbol.toLowerCase(), symbol: symbol.toLowerCase(), name: symbol, image: '' },
+      '1d',
+      days,
+      controller.signal
+    ))).then((results) => {
+      if (controller.signal.aborted) return
+      const candles: Record<string, Candle[]> = {}
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') candles[symbols[index]] = result.value
+        else console.warn(`Daily candles for ${symbols[index]} failed:`, result.reason)
+      })
+      setHistory(computeValueHistory(lots, candles))
+      setLoading(false)
+    })
+
+    return () => controller.abort()
+  }, [provider, lotsKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return { history, loading }
+}
@@ -0,0 +1,37 @@
+import { useCallback, useMemo } from 'react'
+import { z } from 'zod'
+import { lotSchema, type Lot, type NewLot } from '@/lib/portfolio/holdings'
+import { usePersistentState } from './use-persistent-state'
+
+const lotListSchema = z.array(lotSchema)
+const NO_LOTS: Lot[] = []
+
+export function usePortfolio() {
+  const [stored, setStored] = usePersistentState<unknown>('portfolio-lots', NO_LOTS)
+
+  const lots = useMemo<Lot[]>(() => {
+    const parsed = lotListSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored portfolio lots are invalid, ignoring them:', parsed.error)
+      return NO_LOTS
+    }
+    return parsed.data
+  }, [stored])
+
+  const update = useCallback((fn: (lots: Lot[]) => Lot[]) => {
+    setStored((prev: unknown) => {
+      const parsed = lotListSchema.safeParse(prev)
+      return fn(parsed.success ? parsed.data : [])
+    })
+  }, [setStored])
+
+  const addLots = useCallback((newLots: NewLot[]) => {
+    update(prev => [...prev, ...newLots.map(lot => ({ ...lot, id: crypto.randomUUID() }))])
+  }, [update])
+
+  const removeLot = useCallback((id: string) => {
+    update(prev => prev.filter(lot => lot.id !== id))
+  }, [update])
+
+  return { lots, addLots, removeLot }
+}
@@ -0,0 +1,44 @@
+import { useCallback, useMemo } from 'react'
+import { z } from 'zod'
+import { savedScreenSchema, type SavedScreen, type ScreenFilter } from '@/lib/screener/screens'
+import { usePersistentState } from './use-persistent-state'
+
+const screenListSchema = z.array(savedScreenSchema)
+const NO_SCREENS: SavedScreen[] = []
+
+export function useScreens() {
+  const [stored, setStored] = usePersistentState<unknown>('screens', NO_SCREENS)
+
+  const screens = useMemo<SavedScreen[]>(() => {
+    const parsed = screenListSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored screens are invalid, ignoring them:', parsed.error)
+      return NO_SCREENS
+    }
+    return parsed.data
+  }, [stored])
+
+  const update = useCallback((fn: (screens: SavedScreen[]) => SavedScreen[]) => {
+    setStored((prev: unknown) => {
+      const parsed = screenListSchema.safeParse(prev)
+      return fn(parsed.success ? parsed.data : [])
+    })
+  }, [setStored])
+
+  // Saving under an existing name overwrites that screen
+  const saveScreen = useCallback((name: string, filter: ScreenFilter) => {
+    const id = crypto.randomUUID()
+    update(prev => {
+      const existing = prev.find(screen => screen.name === name)
+      return existing
+        ? prev.map(screen => screen.id === existing.id ? { ...screen, filter } : screen)
+        : [...prev, { id, name, filter }]
+    })
+  }, [update])
+
+  const removeScreen = useCallback((id: string) => {
+    update(prev => prev.filter(screen => screen.id !== id))
+  }, [update])
+
+  return { screens, saveScreen, removeScreen }
+}
@@ -0,0 +1,16 @@
+import { useCallback, useMemo } from 'react'
+import { DEFAULT_SETTINGS, type Settings } from '@/lib/settings'
+import { usePersistentState } from './use-persistent-state'
+
+export function useSettings() {
+  const [stored, setStored] = usePersistentState<Partial<Settings>>('settings', DEFAULT_SETTINGS)
+
+  // Fill in defaults for settings added after the user last saved
+  const settings = useMemo<Settings>(() => ({ ...DEFAULT_SETTINGS, ...stored }), [stored])
+
+  const updateSettings = useCallback((patch: Partial<Settings>) => {
+    setStored(prev => ({ ...prev, ...patch }))
+  }, [setStored])
+
+  return { settings, updateSettings }
+}
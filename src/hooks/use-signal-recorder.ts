@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react'
+import type { CoinInfo } from '@/lib/coins'
+import { isStale } from '@/lib/provenance'
+import type { MarketDataProvider } from '@/lib/providers'
+import type { SignalExplanation } from '@/lib/signals/explain'
+import { listSignalRecords, recordSignalChange, resolveSignalOutcomes } from '@/lib/signals/history'
+import type { SignalAction } from '@/lib/signals/rules'
+import type { DataProvenance } from '@/types/crypto'
+
+export interface EvaluatedSignal {
+  coin: CoinInfo
+  explanation: SignalExplanation
+  fundingRate: number | null
+  provenance: DataProvenance
+}
+
+const OUTCOME_CHECK_INTERVAL = 60_000
+
+// Prices recent enough to stand in for the candle at an outcome's target
+// time. Stale prices and ones restored from the offline snapshot are left
+// out, so those outcomes are read from real candles instead.
+function currentPrices(signals: EvaluatedSignal[], now = Date.now()) {
+  return Object.fromEntries(signals
+    .filter(({ provenance }) => !provenance.restored && !isStale(provenance.fetchedAt, now))
+    .map(({ explanation }) => [explanation.symbol, explanation.price]))
+}
+
+// Persists every change of a coin's signal and keeps filling in forward
+// returns for past signals while the app is open
+export function useSignalRecorder(signals: EvaluatedSignal[], provider: MarketDataProvider) {
+  // Last action per symbol; seeded from the log so reloads don't re-record
+  const lastActions = useRef<Map<string, SignalAction | null> | null>(null)
+  const pending = useRef<Promise<void>>(Promise.resolve())
+  const latestSignals = useRef(signals)
+
+  useEffect(() => {
+    latestSignals.current = signals
+
+    // Chain onto the previous pass so changes are compared in order
+    pending.current = pending.current.then(async () => {
+      if (!lastActions.current) {
+        const records = await listSignalRecords()
+        records.sort((a, b) => a.timestamp - b.timestamp)
+        lastActions.current = new Map(records.map(record => [record.symbol, record.action]))
+      }
+
+      for (const { coin, explanation, fundingRate } of signals) {
+        const previous = lastActions.current.get(explanation.symbol) ?? null
+        if (previous === explanation.action) continue
+
+        lastActions.current.set(explanation.symbol, explanation.action)
+        await recordSignalChange(coin, explanation, previous, fundingRate)
+      }
+    }).catch((error) => {
+      console.warn('Failed to record signal history:', error)
+    })
+  }, [signals])
+
+  useEffect(() => {
+    // Demo candles are made up; see resolveSignalOutcomes
+    if (provider.id === 'mock') return
+
+    const check = () => {
+      resolveSignalOutcomes(provider, currentPrices(latestSignals.current)).catch((error) => {
+        console.warn('Failed to resolve signal outcomes:', error)
+      })
+    }
+
+    check()
+    const interval = setInterval(check, OUTCOME_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [provider])
+}
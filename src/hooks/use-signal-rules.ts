@@ -0,0 +1,20 @@
+import { useMemo } from 'react'
+import { DEFAULT_SIGNAL_RULES, signalRuleSetSchema, type SignalRuleSet } from '@/lib/signals/rules'
+import { useWorkspaceState } from './use-workspaces'
+
+export function useSignalRules() {
+  const [stored, setRuleSet] = useWorkspaceState<unknown>('signal-rules', DEFAULT_SIGNAL_RULES)
+
+  // Storage is user-editable, so anything that no longer matches the schema
+  // falls back to the defaults instead of breaking evaluation
+  const ruleSet = useMemo<SignalRuleSet>(() => {
+    const parsed = signalRuleSetSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored signal rules are invalid, using defaults:', parsed.error)
+      return DEFAULT_SIGNAL_RULES
+    }
+    return parsed.data
+  }, [stored])
+
+  return { ruleSet, setRuleSet: (next: SignalRuleSet) => setRuleSet(next) }
+}
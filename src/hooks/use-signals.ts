@@ -0,0 +1,59 @@
+import { useMemo, useRef } from 'react'
+import type { EvaluatedSignal } from '@/hooks/use-signal-recorder'
+import type { CprSet } from '@/lib/indicators/cpr'
+import { getMarketState, selectSavedSignal } from '@/lib/market-store'
+import { buildSignalInputs, evaluateSignal } from '@/lib/signals/engine'
+import { explainSignal } from '@/lib/signals/explain'
+import type { SignalRuleSet } from '@/lib/signals/rules'
+import type { CryptoData, FundingRate, FundingRateData } from '@/types/crypto'
+
+interface CachedSignal {
+  crypto: CryptoData
+  funding: FundingRate | undefined
+  cpr: CprSet | undefined
+  ruleSet: SignalRuleSet
+  signal: EvaluatedSignal
+}
+
+// Evaluates every coin once per data change; cards, the table, explanations
+// and the signal history all read from this. A coin whose inputs did not
+// change keeps its previous result, so a tick on one coin doesn't hand every
+// memoized card a new explanation object.
+export function useSignals(
+  cryptoData: CryptoData[],
+  fundingRates: FundingRateData,
+  cprLevels: Record<string, CprSet>,
+  ruleSet: SignalRuleSet
+) {
+  const cache = useRef(new Map<string, CachedSignal>())
+
+  return useMemo(() => {
+    const next = new Map<string, CachedSignal>()
+    const signals = cryptoData.map((crypto) => {
+      const key = crypto.symbol.toUpperCase()
+      const funding = fundingRates[key]
+      const cpr = cprLevels[key]
+      const cached = cache.current.get(key)
+      if (cached && cached.crypto === crypto && cached.funding === funding && cached.cpr === cpr && cached.ruleSet === ruleSet) {
+        next.set(key, cached)
+        return cached.signal
+      }
+
+      // Restored offline data shows the signal that was saved with it
+      const saved = selectSavedSignal(getMarketState(), crypto.symbol)
+      const signal: EvaluatedSignal = {
+        coin: { id: crypto.id, symbol: crypto.symbol, name: crypto.name, image: crypto.image },
+        explanation: saved ?? explainSignal(
+          evaluateSignal(crypto.symbol, buildSignalInputs(crypto, funding, cpr), ruleSet),
+          crypto.current_price
+        ),
+        fundingRate: funding?.rate ?? null,
+        provenance: crypto.provenance
+      }
+      next.set(key, { crypto, funding, cpr, ruleSet, signal })
+      return signal
+    })
+    cache.current = next
+    return signals
+  }, [cryptoData, fundingRates, cprLevels, ruleSet])
+}
@@ -0,0 +1,25 @@
+import { useEffect, useRef, useState } from 'react'
+import { createTickerStream, type MiniTicker, type StreamStatus } from '@/lib/streaming/ticker-stream'
+
+export function useTickerStream(enabled: boolean, onTickers: (tickers: MiniTicker[]) => void) {
+  const [status, setStatus] = useState<StreamStatus>('closed')
+
+  // Keep the socket alive across renders; only the latest callback is used
+  const onTickersRef = useRef(onTickers)
+  onTickersRef.current = onTickers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const stream = createTickerStream({
+      streams: ['!miniTicker@arr'],
+      onTickers: (tickers) => onTickersRef.current(tickers),
+      onStatusChange: setStatus
+    })
+    stream.start()
+
+    return () => stream.stop()
+  }, [enabled])
+
+  return enabled ? status : 'closed'
+}
@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from 'react'
+import { DEFAULT_TRADINGVIEW_OPTIONS, tradingViewOptionsSchema, type TradingViewOptions } from '@/lib/tradingview'
+import { usePersistentState } from './use-persistent-state'
+
+export function useTradingViewOptions() {
+  const [stored, setStored] = usePersistentState<unknown>('tradingview-options', DEFAULT_TRADINGVIEW_OPTIONS)
+
+  const options = useMemo<TradingViewOptions>(() => {
+    const parsed = tradingViewOptionsSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored TradingView options are invalid, using defaults:', parsed.error)
+      return DEFAULT_TRADINGVIEW_OPTIONS
+    }
+    return parsed.data
+  }, [stored])
+
+  const updateOptions = useCallback((patch: Partial<TradingViewOptions>) => {
+    setStored((prev: unknown) => {
+      const parsed = tradingViewOptionsSchema.safeParse(prev)
+      return { ...(parsed.success ? parsed.data : DEFAULT_TRADINGVIEW_OPTIONS), ...patch }
+    })
+  }, [setStored])
+
+  // An empty symbol drops the override and goes back to BINANCE:<SYMBOL>USDT
+  const setSymbolOverride = useCallback((symbol: string, tradingViewSymbol: string) => {
+    const key = symbol.toUpperCase()
+    const { [key]: _previous, ...rest } = options.symbols
+    const value = tradingViewSymbol.trim().toUpperCase()
+    updateOptions({ symbols: value ? { ...rest, [key]: value } : rest })
+  }, [options.symbols, updateOptions])
+
+  return { options, updateOptions, setSymbolOverride }
+}
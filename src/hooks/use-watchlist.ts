@@ -0,0 +1,34 @@
+import { useCallback } from 'react'
+import { DEFAULT_WATCHLIST, type CoinInfo } from '@/lib/coins'
+import { useWorkspaceState } from './use-workspaces'
+
+function sameSymbol(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+export function useWatchlist() {
+  const [watchlist, setWatchlist] = useWorkspaceState<CoinInfo[]>('watchlist', DEFAULT_WATCHLIST)
+
+  // Coins are matched by symbol so lists built from different providers
+  // (CoinGecko ids vs. Binance tickers) don't end up with duplicates
+  const hasCoin = useCallback(
+    (symbol: string) => watchlist.some(coin => sameSymbol(coin.symbol, symbol)),
+    [watchlist]
+  )
+
+  const addCoin = useCallback((coin: CoinInfo) => {
+    setWatchlist(prev => prev.some(c => sameSymbol(c.symbol, coin.symbol)) ? prev : [...prev, coin])
+  }, [setWatchlist])
+
+  const addCoins = useCallback((coins: CoinInfo[]) => {
+    setWatchlist(prev => [...prev, ...coins.filter(coin => !prev.some(c => sameSymbol(c.symbol, coin.symbol)))])
+  }, [setWatchlist])
+
+  const removeCoin = useCallback((symbol: string) => {
+    setWatchlist(prev => prev.filter(coin => !sameSymbol(coin.symbol, symbol)))
+  }, [setWatchlist])
+
+  const resetWatchlist = useCallback(() => setWatchlist(DEFAULT_WATCHLIST), [setWatchlist])
+
+  return { watchlist, hasCoin, addCoin, addCoins, removeCoin, resetWatchlist }
+}
@@ -0,0 +1,96 @@
+import { useCallback, useMemo } from 'react'
+import {
+  clearWorkspace,
+  DEFAULT_WORKSPACE_ID,
+  DEFAULT_WORKSPACE_STATE,
+  exportWorkspace,
+  uniqueWorkspaceName,
+  workspaceStateSchema,
+  workspaceStorageKey,
+  writeWorkspace,
+  type WorkspaceExport,
+  type WorkspaceKey,
+  type WorkspaceState
+} from '@/lib/workspaces'
+import { usePersistentState } from './use-persistent-state'
+
+function useWorkspaceRegistry() {
+  const [stored, setStored] = usePersistentState<unknown>('workspaces', DEFAULT_WORKSPACE_STATE)
+
+  const state = useMemo<WorkspaceState>(() => {
+    const parsed = workspaceStateSchema.safeParse(stored)
+    if (!parsed.success) {
+      console.warn('Stored workspaces are invalid, using the default workspace:', parsed.error)
+      return DEFAULT_WORKSPACE_STATE
+    }
+    // A dangling active id (e.g. deleted in another tab) falls back to the first
+    const { activeId, workspaces } = parsed.data
+    return workspaces.some(w => w.id === activeId) ? parsed.data : { ...parsed.data, activeId: workspaces[0].id }
+  }, [stored])
+
+  const update = useCallback((fn: (state: WorkspaceState) => WorkspaceState) => {
+    setStored((prev: unknown) => {
+      const parsed = workspaceStateSchema.safeParse(prev)
+      return fn(parsed.success ? parsed.data : DEFAULT_WORKSPACE_STATE)
+    })
+  }, [setStored])
+
+  return { state, update }
+}
+
+// State scoped to the active workspace; switching workspaces swaps the value
+export function useWorkspaceState<T>(key: WorkspaceKey, initialValue: T) {
+  const { state } = useWorkspaceRegistry()
+  return usePersistentState<T>(workspaceStorageKey(state.activeId, key), initialValue)
+}
+
+export function useWorkspaces() {
+  const { state, update } = useWorkspaceRegistry()
+  const active = state.workspaces.find(w => w.id === state.activeId) ?? state.workspaces[0]
+
+  const switchWorkspace = useCallback((id: string) => {
+    update(prev => ({ ...prev, activeId: id }))
+  }, [update])
+
+  // New workspaces start as a copy of `data`, or from the defaults
+  const createWorkspace = useCallback((name: string, data?: WorkspaceExport) => {
+    const id = crypto.randomUUID()
+    if (data) writeWorkspace(id, data)
+    update(prev => ({
+      activeId: id,
+      workspaces: [...prev.workspaces, { id, name: uniqueWorkspaceName(name, prev.workspaces) }]
+    }))
+  }, [update])
+
+  const duplicateWorkspace = useCallback((id: string) => {
+    const workspace = state.workspaces.find(w => w.id === id)
+    if (workspace) createWorkspace(workspace.name, exportWorkspace(workspace))
+  }, [state.workspaces, createWorkspace])
+
+  const renameWorkspace = useCallback((id: string, name: string) => {
+    update(prev => ({
+      ...prev,
+      workspaces: prev.workspaces.map(w => w.id === id ? { ...w, name } : w)
+    }))
+  }, [update])
+
+  // The default workspace owns the legacy storage keys and always stays
+  const removeWorkspace = useCallback((id: string) => {
+    if (id === DEFAULT_WORKSPACE_ID) return
+    update(prev => {
+      const workspaces = prev.workspaces.filter(w => w.id !== id)
+      return { activeId: prev.activeId === id ? workspaces[0].id : prev.activeId, workspaces }
+    })
+    clearWorkspace(id)
+  }, [update])
+
+  return {
+    workspaces: state.workspaces,
+    active,
+    switchWorkspace,
+    createWorkspace,
+    duplicateWorkspace,
+    renameWorkspace,
+    removeWorkspace
+  }
+}
@@ -0,0 +1,144 @@
+import { formatPrice } from '@/lib/format'
+import type { SignalAction } from '@/lib/signals/rules'
+import { ANY_COIN, type Alert } from './rules'
+
+// What the alert engine needs to know about one coin at one refresh
+export interface AlertSnapshot {
+  price: number
+  // Percent, null when no funding rate is known
+  fundingRate: number | null
+  action: SignalAction | null
+  high24h: number
+  low24h: number
+}
+
+export type MarketSnapshot = Record<string, AlertSnapshot>
+
+export interface PricePoint {
+  time: number
+  price: number
+}
+
+export type PriceHistory = Record<string, PricePoint[]>
+
+export interface AlertTrigger {
+  alertId: string
+  symbol: string
+  title: string
+  message: string
+}
+
+// One sample per half minute is plenty for windows measured in minutes
+const SAMPLE_SPACING = 30_000
+const MAX_WINDOW = 24 * 60 * 60_000
+
+export function recordPrices(history: PriceHistory, snapshot: MarketSnapshot, now: number): PriceHistory {
+  const next: PriceHistory = {}
+  for (const [symbol, { price }] of Object.entries(snapshot)) {
+    const points = (history[symbol] ?? []).filter(point => point.time >= now - MAX_WINDOW)
+    const last = points[points.length - 1]
+    if (!last || now - last.time >= SAMPLE_SPACING) points.push({ time: now, price })
+    next[symbol] = points
+  }
+  return next
+}
+
+function crossed(previous: number, current: number, level: number, direction: 'above' | 'below') {
+  return direction === 'above'
+    ? previous < level && current >= level
+    : previous > level && current <= level
+}
+
+function check(
+  alert: Alert,
+  symbol: string,
+  current: AlertSnapshot,
+  previous: AlertSnapshot | undefined,
+  history: PricePoint[],
+  lastFiredAt: number | undefined,
+  now: number
+): Pick<AlertTrigger, 'title' | 'message'> | null {
+  const { condition } = alert
+
+  switch (condition.kind) {
+    case 'price-cross':
+      if (!previous || !crossed(previous.price, current.price, condition.level, condition.direction)) return null
+      return {
+        title: `${symbol} ${condition.direction} ${formatPrice(condition.level)}`,
+        message: `Now ${formatPrice(current.price)}`
+      }
+
+    case 'percent-move': {
+      const windowMs = condition.windowMinutes * 60_000
+      // Don't repeat for the same move until a full window has passed
+      if (lastFiredAt !== undefined && now - lastFiredAt < windowMs) return null
+      const base = history.find(point => point.time >= now - windowMs)
+      if (!base || base.time === now) return null
+
+      const change = ((current.price - base.price) / base.price) * 100
+      if (Math.abs(change) < condition.percent) return null
+      return {
+        title: `${symbol} ${change > 0 ? '+' : ''}${change.toFixed(2)}% in ${condition.windowMinutes} min`,
+        message: `${formatPrice(base.price)} → ${formatPrice(current.price)}`
+      }
+    }
+
+    case 'funding-cross':
+      if (previous?.fundingRate == null || current.fundingRate === null) return null
+      if (!crossed(previous.fundingRate, current.fundingRate, condition.threshold, condition.direction)) return null
+      return {
+        title: `${symbol} funding ${condition.direction} ${condition.threshold}%`,
+        message: `Now ${current.fundingRate.toFixed(4)}%`
+      }
+
+    case 'signal-flip':
+      if (!previous || previous.action === current.action || !current.action) return null
+      return {
+        title: `${symbol} signal: ${current.action}`,
+        message: `Was ${previous.action ?? 'neutral'} at ${formatPrice(current.price)}`
+      }
+
+    case 'range-break':
+      if (!previous) return null
+      if (current.price > previous.high24h && previous.price <= previous.high24h) {
+        return { title: `${symbol} new 24h high`, message: formatPrice(current.price) }
+      }
+      if (current.price < previous.low24h && previous.price >= previous.low24h) {
+        return { title: `${symbol} new 24h low`, message: formatPrice(current.price) }
+      }
+      return null
+  }
+}
+
+export function alertKey(alertId: string, symbol: string) {
+  return `${alertId}:${symbol}`
+}
+
+// Compares this refresh with the previous one. Crossing-style alerts re-arm
+// by themselves once the value moves back; `lastFired` throttles the rest.
+export function evaluateAlerts(
+  alerts: Alert[],
+  current: MarketSnapshot,
+  previous: MarketSnapshot | null,
+  history: PriceHistory,
+  lastFired: Map<string, number>,
+  now = Date.now()
+): AlertTrigger[] {
+  const triggers: AlertTrigger[] = []
+
+  for (const alert of alerts) {
+    if (!alert.enabled) continue
+    const symbols = alert.symbol === ANY_COIN ? Object.keys(current) : [alert.symbol]
+
+    for (const symbol of symbols) {
+      const snapshot = current[symbol]
+      if (!snapshot) continue
+
+      const lastFiredAt = lastFired.get(alertKey(alert.id, symbol))
+      const result = check(alert, symbol, snapshot, previous?.[symbol], history[symbol] ?? [], lastFiredAt, now)
+      if (result) triggers.push({ alertId: alert.id, symbol, ...result })
+    }
+  }
+
+  return triggers
+}
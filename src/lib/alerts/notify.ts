@@ -0,0 +1,56 @@
+import toast from 'react-hot-toast'
+import { alertKey, type AlertTrigger } from './evaluate'
+
+export interface DeliveryOptions {
+  notifications: boolean
+  sound: boolean
+}
+
+export function notificationsSupported() {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+export async function requestNotificationPermission() {
+  if (!notificationsSupported()) return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+let audioContext: AudioContext | null = null
+
+// A short two-tone chime synthesized on the fly, so no audio asset ships
+function playChime() {
+  try {
+    audioContext ??= new AudioContext()
+    const start = audioContext.currentTime
+    ;[880, 1320].forEach((frequency, index) => {
+      const oscillator = audioContext!.createOscillator()
+      const gain = audioContext!.createGain()
+      const at = start + index * 0.15
+      oscillator.frequency.value = frequency
+      gain.gain.setValueAtTime(0.2, at)
+      gain.gain.exponentialRampToValueAtTime(0.001, at + 0.3)
+      oscillator.connect(gain).connect(audioContext!.destination)
+      oscillator.start(at)
+      oscillator.stop(at + 0.3)
+    })
+  } catch (error) {
+    console.warn('Could not play alert sound:', error)
+  }
+}
+
+export function deliverAlerts(triggers: AlertTrigger[], options: DeliveryOptions) {
+  if (triggers.length === 0) return
+
+  for (const trigger of triggers) {
+    toast(`${trigger.title}\n${trigger.message}`, { icon: '🔔', duration: 8000 })
+
+    if (options.notifications && notificationsSupported() && Notification.permission === 'granted') {
+      // Same tag replaces an older notification for the same alert and coin
+      new Notification(trigger.title, { body: trigger.message, tag: alertKey(trigger.alertId, trigger.symbol) })
+    }
+  }
+
+  if (options.sound) playChime()
+}
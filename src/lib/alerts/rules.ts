@@ -0,0 +1,78 @@
+import { z } from 'zod'
+import { formatPrice } from '@/lib/format'
+
+// Matches every coin on the watchlist
+export const ANY_COIN = '*'
+
+export const ALERT_KINDS = {
+  'price-cross': 'Price crosses a level',
+  'percent-move': 'Price moves % within a window',
+  'funding-cross': 'Funding rate crosses a threshold',
+  'signal-flip': 'Signal flips to BUY or SELL',
+  'range-break': 'New 24h high or low'
+} as const
+
+export type AlertKind = keyof typeof ALERT_KINDS
+
+const directionSchema = z.enum(['above', 'below'])
+
+export const alertConditionSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('price-cross'),
+    direction: directionSchema,
+    level: z.number({ error: 'Enter a price' }).positive('Price must be above zero')
+  }),
+  z.object({
+    kind: z.literal('percent-move'),
+    percent: z.number({ error: 'Enter a percentage' }).positive('Must be above zero'),
+    windowMinutes: z.number({ error: 'Enter minutes' }).int().min(1, 'At least 1 minute').max(1440, 'At most 24 hours')
+  }),
+  z.object({
+    kind: z.literal('funding-cross'),
+    direction: directionSchema,
+    // Percent per interval, like the signal rules (0.05 = 0.05%)
+    threshold: z.number({ error: 'Enter a rate' })
+  }),
+  z.object({ kind: z.literal('signal-flip') }),
+  z.object({ kind: z.literal('range-break') })
+])
+
+export const newAlertSchema = z.object({
+  symbol: z.string().trim().min(1, 'Pick a coin').transform(symbol => symbol.toUpperCase()),
+  condition: alertConditionSchema
+})
+
+export const alertSchema = newAlertSchema.extend({
+  id: z.string().min(1),
+  enabled: z.boolean(),
+  createdAt: z.number(),
+  lastTriggeredAt: z.number().nullable()
+})
+
+export type AlertCondition = z.infer<typeof alertConditionSchema>
+export type NewAlert = z.infer<typeof newAlertSchema>
+export type Alert = z.infer<typeof alertSchema>
+
+export const DEFAULT_ALERT_CONDITIONS: { [K in AlertKind]: Extract<AlertCondition, { kind: K }> } = {
+  'price-cross': { kind: 'price-cross', direction: 'above', level: 0 },
+  'percent-move': { kind: 'percent-move', percent: 5, windowMinutes: 60 },
+  'funding-cross': { kind: 'funding-cross', direction: 'above', threshold: 0.05 },
+  'signal-flip': { kind: 'signal-flip' },
+  'range-break': { kind: 'range-break' }
+}
+
+export function describeAlert({ symbol, condition }: NewAlert) {
+  const coin = symbol === ANY_COIN ? 'Any coin' : symbol
+  switch (condition.kind) {
+    case 'price-cross':
+      return `${coin} crosses ${condition.direction} ${formatPrice(condition.level)}`
+    case 'percent-move':
+      return `${coin} moves ${condition.percent}% within ${condition.windowMinutes} min`
+    case 'funding-cross':
+      return `${coin} funding crosses ${condition.direction} ${condition.threshold}%`
+    case 'signal-flip':
+      return `${coin} signal flips`
+    case 'range-break':
+      return `${coin} makes a new 24h high or low`
+  }
+}
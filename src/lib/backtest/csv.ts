@@ -0,0 +1,86 @@
+import { findColumn, parseCsvTime, requireColumn, splitCsvRows } from '@/lib/csv'
+import type { Candle } from '@/types/crypto'
+
+export interface FundingPoint {
+  // Settlement time, epoch milliseconds
+  time: number
+  // Fraction, like FundingRate.rate (0.0001 = 0.01%)
+  rate: number
+}
+
+export interface HistorySeries {
+  candles: Candle[]
+  funding: FundingPoint[]
+}
+
+const TIME_COLUMNS = ['time', 'timestamp', 'open_time', 'date', 'datetime']
+const FUNDING_COLUMNS = ['funding_rate', 'fundingrate', 'funding', 'rate']
+
+// Exchange exports write funding as "0.0100%"; plain numbers are fractions
+function parseRate(value: string) {
+  if (!value) return null
+  const percent = value.endsWith('%')
+  const number = Number(percent ? value.slice(0, -1) : value)
+  if (!Number.isFinite(number)) return null
+  return percent ? number / 100 : number
+}
+
+// Candle CSV: time,open,high,low,close,volume with an optional funding_rate
+// column filled on settlement rows only
+export function parseHistoryCsv(text: string): HistorySeries {
+  const [header, ...rows] = splitCsvRows(text)
+  if (!header) throw new Error('CSV is empty')
+
+  const columns = {
+    time: requireColumn(header, TIME_COLUMNS, 'time'),
+    open: requireColumn(header, ['open'], 'open'),
+    high: requireColumn(header, ['high'], 'high'),
+    low: requireColumn(header, ['low'], 'low'),
+    close: requireColumn(header, ['close'], 'close'),
+    volume: requireColumn(header, ['volume', 'quote_volume'], 'volume')
+  }
+  const fundingColumn = findColumn(header, FUNDING_COLUMNS)
+
+  const candles: Candle[] = []
+  const funding: FundingPoint[] = []
+
+  rows.forEach((row, index) => {
+    const time = parseCsvTime(row[columns.time] ?? '')
+    const [open, high, low, close, volume] = (['open', 'high', 'low', 'close', 'volume'] as const)
+      .map(key => Number(row[columns[key]]))
+    if (time === null || ![open, high, low, close, volume].every(Number.isFinite)) {
+      // +2: one for the header, one for 1-based line numbers
+      throw new Error(`Invalid candle on line ${index + 2}`)
+    }
+
+    candles.push({ time, open, high, low, close, volume })
+
+    const rate = fundingColumn === -1 ? null : parseRate(row[fundingColumn] ?? '')
+    if (rate !== null) funding.push({ time, rate })
+  })
+
+  if (candles.length < 2) throw new Error('CSV needs at least two candles')
+
+  candles.sort((a, b) => a.time - b.time)
+  funding.sort((a, b) => a.time - b.time)
+  return { candles, funding }
+}
+
+// Funding CSV: a time column and a rate column, e.g. a Binance funding
+// history export
+export function parseFundingCsv(text: string): FundingPoint[] {
+  const [header, ...rows] = splitCsvRows(text)
+  if (!header) throw new Error('CSV is empty')
+
+  const timeColumn = requireColumn(header, TIME_COLUMNS, 'time')
+  const rateColumn = requireColumn(header, FUNDING_COLUMNS, 'funding rate')
+
+  return rows
+    .map((row, index) => {
+      const time = parseCsvTime(row[timeColumn] ?? '')
+      const rate = parseRate(row[rateColumn] ?? '')
+      if (time === null || rate === null) throw new Error(`Invalid funding rate on line ${index + 2}`)
+      return { time, rate }
+    })
+    .sort((a, b) => a.time - b.time)
+}
@@ -0,0 +1,289 @@
+import { computeCprSet, type CprSet } from '@/lib/indicators/cpr'
+import { buildSignalInputs, evaluateSignal } from '@/lib/signals/engine'
+import type { SignalAction, SignalRuleSet } from '@/lib/signals/rules'
+import { DEFAULT_FUNDING_INTERVAL_HOURS } from '@/lib/funding'
+import { liveProvenance } from '@/lib/provenance'
+import type { Candle, CryptoData, FundingRate } from '@/types/crypto'
+import type { FundingPoint, HistorySeries } from './csv'
+
+export interface BacktestOptions {
+  symbol: string
+  initialCapital: number
+  // Taker fee per side, percent of notional
+  feePercent: number
+  allowShorts: boolean
+  // Close the position when the signal goes back to neutral instead of
+  // holding until the opposite signal
+  exitOnNeutral: boolean
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  symbol: 'BTC',
+  initialCapital: 10_000,
+  feePercent: 0.05,
+  allowShorts: true,
+  exitOnNeutral: false
+}
+
+export type TradeSide = 'long' | 'short'
+
+export interface BacktestTrade {
+  side: TradeSide
+  entryTime: number
+  entryPrice: number
+  exitTime: number
+  exitPrice: number
+  // Net of fees and funding
+  pnl: number
+  returnPercent: number
+  fees: number
+  funding: number
+  // Rules that matched when the trade was opened
+  reasons: string[]
+}
+
+export interface EquityPoint {
+  time: number
+  equity: number
+  buyAndHold: number
+  // Distance below the running equity peak, zero or negative
+  drawdownPercent: number
+}
+
+export interface BacktestResult {
+  equity: EquityPoint[]
+  trades: BacktestTrade[]
+  finalEquity: number
+  totalReturnPercent: number
+  buyAndHoldReturnPercent: number
+  maxDrawdownPercent: number
+  // Annualized from per-bar returns, risk-free rate of zero
+  sharpe: number | null
+  winRate: number | null
+  feesPaid: number
+  fundingPaid: number
+}
+
+const HOUR = 3_600_000
+const DAY = 24 * HOUR
+
+interface OpenPosition {
+  side: TradeSide
+  entryTime: number
+  entryPrice: number
+  quantity: number
+  fees: number
+  funding: number
+  reasons: string[]
+}
+
+function aggregateDaily(candles: Candle[]): Candle[] {
+  const days = new Map<number, Candle>()
+  for (const candle of candles) {
+    const day = Math.floor(candle.time / DAY) * DAY
+    const current = days.get(day)
+    if (!current) {
+      days.set(day, { ...candle, time: day })
+    } else {
+      current.high = Math.max(current.high, candle.high)
+      current.low = Math.min(current.low, candle.low)
+      current.close = candle.close
+      current.volume += candle.volume
+    }
+  }
+  return [...days.values()]
+}
+
+function detectIntervalMs(candles: Candle[]) {
+  const gaps = candles.slice(1).map((candle, i) => candle.time - candles[i].time).sort((a, b) => a - b)
+  return gaps[Math.floor(gaps.length / 2)] || HOUR
+}
+
+function detectFundingIntervalHours(funding: FundingPoint[]) {
+  if (funding.length < 2) return DEFAULT_FUNDING_INTERVAL_HOURS
+  return Math.round((funding[funding.length - 1].time - funding[0].time) / (funding.length - 1) / HOUR) ||
+    DEFAULT_FUNDING_INTERVAL_HOURS
+}
+
+// Rebuilds the CryptoData the dashboard would have seen at the close of bar
+// `index`, so signals go through the exact same buildSignalInputs path
+function snapshotAt(candles: Candle[], index: number, intervalMs: number, ath: number, symbol: string): CryptoData {
+  const candle = candles[index]
+  const closeTime = candle.time + intervalMs
+  let dayStart = index
+  let weekStart = index
+  while (dayStart > 0 && candles[dayStart - 1].time >= closeTime - DAY) dayStart--
+  while (weekStart > 0 && candles[weekStart - 1].time >= closeTime - 7 * DAY) weekStart--
+
+  const window = candles.slice(dayStart, index + 1)
+  const dayOpen = candles[dayStart].open
+  const weekOpen = candles[weekStart].open
+  const hasFullWeek = candles[0].time <= closeTime - 7 * DAY
+
+  return {
+    id: symbol.toLowerCase(),
+    name: symbol,
+    symbol: symbol.toLowerCase(),
+    image: '',
+    current_price: candle.close,
+    price_change_percentage_24h: ((candle.close - dayOpen) / dayOpen) * 100,
+    price_change_percentage_7d: hasFullWeek ? ((candle.close - weekOpen) / weekOpen) * 100 : null,
+    total_volume: window.reduce((sum, c) => sum + c.volume, 0),
+    high_24h: Math.max(...window.map(c => c.high)),
+    low_24h: Math.min(...window.map(c => c.low)),
+    // Only as high as the loaded history goes
+    ath,
+    ath_change_percentage: ((candle.close - ath) / ath) * 100,
+    circulating_supply: null,
+    provenance: liveProvenance('Backtest', closeTime)
+  }
+}
+
+function targetSide(action: SignalAction | null, current: TradeSide | null, options: BacktestOptions): TradeSide | null {
+  if (action === 'BUY') return 'long'
+  if (action === 'SELL') return options.allowShorts ? 'short' : null
+  return options.exitOnNeutral ? null : current
+}
+
+// Replays history bar by bar: evaluates the rule set at each close and
+// trades at the next bar's open, so a signal never sees its own fill price
+export function runBacktest(history: HistorySeries, ruleSet: SignalRuleSet, options: BacktestOptions): BacktestResult {
+  const { candles, funding } = history
+  const intervalMs = detectIntervalMs(candles)
+  const fundingIntervalHours = detectFundingIntervalHours(funding)
+  const dailyCandles = aggregateDaily(candles)
+  const fee = options.feePercent / 100
+
+  let cash = options.initialCapital
+  let position: OpenPosition | null = null
+  let pendingSide: TradeSide | null = null
+  let pendingReasons: string[] = []
+  let fundingIndex = 0
+  let currentFunding: FundingPoint | null = null
+  let ath = 0
+  let cpr: CprSet | undefined
+  let cprDay: number | null = null
+  let feesPaid = 0
+  let fundingPaid = 0
+
+  const trades: BacktestTrade[] = []
+  const equity: EquityPoint[] = []
+  const firstPrice = candles[0].open
+
+  const markToMarket = (price: number) => {
+    if (!position) return cash
+    const direction = position.side === 'long' ? 1 : -1
+    return cash + direction * position.quantity * (price - position.entryPrice)
+  }
+
+  const closePosition = (time: number, price: number) => {
+    if (!position) return
+    const direction = position.side === 'long' ? 1 : -1
+    const exitFee = position.quantity * price * fee
+    const gross = direction * position.quantity * (price - position.entryPrice)
+    cash += gross - exitFee
+    feesPaid += exitFee
+
+    const fees = position.fees + exitFee
+    const pnl = gross - fees - position.funding
+    trades.push({
+      side: position.side,
+      entryTime: position.entryTime,
+      entryPrice: position.entryPrice,
+      exitTime: time,
+      exitPrice: price,
+      pnl,
+      returnPercent: (pnl / (position.quantity * position.entryPrice)) * 100,
+      fees,
+      funding: position.funding,
+      reasons: position.reasons
+    })
+    position = null
+  }
+
+  const openPosition = (side: TradeSide, time: number, price: number, reasons: string[]) => {
+    // All-in, no leverage: the whole balance is the notional
+    const notional = cash / (1 + fee)
+    const entryFee = notional * fee
+    cash -= entryFee
+    feesPaid += entryFee
+    position = { side, entryTime: time, entryPrice: price, quantity: notional / price, fees: entryFee, funding: 0, reasons }
+  }
+
+  candles.forEach((candle, index) => {
+    // Fill the previous bar's decision at this bar's open
+    if (pendingSide !== (position?.side ?? null)) {
+      closePosition(candle.time, candle.open)
+      if (pendingSide) openPosition(pendingSide, candle.time, candle.open, pendingReasons)
+    }
+
+    const closeTime = candle.time + intervalMs
+    // Settle funding that fell inside this bar; longs pay positive rates
+    while (fundingIndex < funding.length && funding[fundingIndex].time < closeTime) {
+      currentFunding = funding[fundingIndex]
+      if (position && currentFunding.time >= position.entryTime) {
+        const direction = position.side === 'long' ? 1 : -1
+        const payment = direction * currentFunding.rate * position.quantity * candle.open
+        position.funding += payment
+        cash -= payment
+        fundingPaid += payment
+      }
+      fundingIndex++
+    }
+
+    ath = Math.max(ath, candle.high)
+    const snapshot = snapshotAt(candles, index, intervalMs, ath, options.symbol)
+    const fundingRate: FundingRate | undefined = currentFunding
+      ? { exchange: 'history', rate: currentFunding.rate, nextFundingTime: null, intervalHours: fundingIntervalHours }
+      : undefined
+    // CPR levels only move at UTC day boundaries
+    const day = Math.floor(closeTime / DAY)
+    if (day !== cprDay) {
+      cpr = computeCprSet(dailyCandles, closeTime)
+      cprDay = day
+    }
+    const signal = evaluateSignal(options.symbol, buildSignalInputs(snapshot, fundingRate, cpr), ruleSet)
+
+    pendingSide = targetSide(signal.action, position?.side ?? null, options)
+    pendingReasons = signal.reasons.filter(reason => reason.matched).map(reason => reason.ruleName)
+
+    equity.push({
+      time: closeTime,
+      equity: markToMarket(candle.close),
+      buyAndHold: options.initialCapital * (candle.close / firstPrice),
+      drawdownPercent: 0
+    })
+  })
+
+  const last = candles[candles.length - 1]
+  closePosition(last.time + intervalMs, last.close)
+  const finalEquity = cash
+  equity[equity.length - 1].equity = finalEquity
+
+  let peak = options.initialCapital
+  let maxDrawdownPercent = 0
+  for (const point of equity) {
+    peak = Math.max(peak, point.equity)
+    point.drawdownPercent = ((point.equity - peak) / peak) * 100
+    maxDrawdownPercent = Math.min(maxDrawdownPercent, point.drawdownPercent)
+  }
+
+  const returns = equity.slice(1).map((point, i) => point.equity / equity[i].equity - 1)
+  const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1)
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length || 1)
+  const stdDev = Math.sqrt(variance)
+  const barsPerYear = (365 * DAY) / intervalMs
+
+  return {
+    equity,
+    trades,
+    finalEquity,
+    totalReturnPercent: (finalEquity / options.initialCapital - 1) * 100,
+    buyAndHoldReturnPercent: (last.close / firstPrice - 1) * 100,
+    maxDrawdownPercent,
+    sharpe: stdDev > 0 ? (mean / stdDev) * Math.sqrt(barsPerYear) : null,
+    winRate: trades.length ? trades.filter(trade => trade.pnl > 0).length / trades.length : null,
+    feesPaid,
+    fundingPaid
+  }
+}
@@ -0,0 +1,10 @@
+import sampleCsv from './sample-btcusdt-1h.csv?raw'
+
+// Synthetic 90 days of hourly BTCUSDT-like candles with 8h funding, bundled
+// so the backtester works offline before any real history is imported. It
+// is not market data; import an exchange export to tune rules for real.
+export const SAMPLE_HISTORY = {
+  name: 'Sample BTCUSDT 1h (synthetic)',
+  symbol: 'BTC',
+  csv: sampleCsv
+}
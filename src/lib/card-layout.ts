@@ -0,0 +1,48 @@
+import { z } from 'zod'
+
+// Cards are keyed by upper-case symbol, like the watchlist, so a layout
+// survives switching between providers with different coin ids
+export const cardLayoutSchema = z.object({
+  // Manual order; coins not listed follow in the provider's order
+  order: z.array(z.string()),
+  pinned: z.array(z.string()),
+  collapsed: z.array(z.string())
+})
+
+export type CardLayout = z.infer<typeof cardLayoutSchema>
+
+export const DEFAULT_CARD_LAYOUT: CardLayout = { order: [], pinned: [], collapsed: [] }
+
+export function cardKey(symbol: string) {
+  return symbol.toUpperCase()
+}
+
+// Pinned cards first, then the manual order, then anything new
+export function arrangeCards<T>(items: T[], layout: CardLayout, symbolOf: (item: T) => string): T[] {
+  const rank = (item: T) => {
+    const index = layout.order.indexOf(cardKey(symbolOf(item)))
+    return index === -1 ? layout.order.length : index
+  }
+  const pinned = (item: T) => layout.pinned.includes(cardKey(symbolOf(item))) ? 0 : 1
+
+  // Array.prototype.sort is stable, so unranked coins keep the provider's order
+  return [...items].sort((a, b) => pinned(a) - pinned(b) || rank(a) - rank(b))
+}
+
+// Moves `key` to where `overKey` sits in the arranged order. Pinned cards
+// always sort first, so a drop across the pinned boundary snaps back to the
+// card's own section.
+export function moveCard(layout: CardLayout, arranged: string[], key: string, overKey: string): CardLayout {
+  const from = arranged.indexOf(key)
+  const to = arranged.indexOf(overKey)
+  if (from === -1 || to === -1 || from === to) return layout
+
+  const order = [...arranged]
+  order.splice(from, 1)
+  order.splice(to, 0, key)
+  return { ...layout, order }
+}
+
+export function toggleKey(keys: string[], key: string) {
+  return keys.includes(key) ? keys.filter(k => k !== key) : [...keys, key]
+}
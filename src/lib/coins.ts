@@ -0,0 +1,26 @@
+export interface CoinInfo {
+  id: string
+  symbol: string
+  name: string
+  image: string
+}
+
+// The watchlist new users start with
+export const DEFAULT_WATCHLIST: CoinInfo[] = [
+  { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin', image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png' },
+  { id: 'ethereum', symbol: 'eth', name: 'Ethereum', image: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png' },
+  { id: 'binancecoin', symbol: 'bnb', name: 'BNB', image: 'https://assets.coingecko.com/coins/images/825/large/bnb-icon2_2x.png' },
+  { id: 'solana', symbol: 'sol', name: 'Solana', image: 'https://assets.coingecko.com/coins/images/4128/large/solana.png' },
+  { id: 'cardano', symbol: 'ada', name: 'Cardano', image: 'https://assets.coingecko.com/coins/images/975/large/cardano.png' },
+  { id: 'sui', symbol: 'sui', name: 'Sui', image: 'https://assets.coingecko.com/coins/images/26375/large/sui_asset.jpeg' },
+  { id: 'sei-network', symbol: 'sei', name: 'Sei', image: 'https://assets.coingecko.com/coins/images/28205/large/sei.png' },
+  { id: 'hype-token', symbol: 'hype', name: 'Hyperliquid', image: 'https://assets.coingecko.com/coins/images/34437/large/hype.png' },
+  { id: 'dogecoin', symbol: 'doge', name: 'Dogecoin', image: 'https://assets.coingecko.com/coins/images/5/large/dogecoin.png' },
+  { id: 'bonk', symbol: 'bonk', name: 'Bonk', image: 'https://assets.coingecko.com/coins/images/28600/large/bonk.jpg' }
+]
+
+// Every exchange integration quotes against USDT and derives its ticker from
+// the coin symbol, so adding a coin needs no per-exchange mapping.
+export function getTradingPair(symbol: string) {
+  return `${symbol.toUpperCase()}USDT`
+}
@@ -0,0 +1,34 @@
+// Minimal CSV helpers for user-imported files. No quoted commas: every
+// export we accept (exchanges, spreadsheets) writes plain numeric cells.
+
+export function splitCsvRows(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')))
+}
+
+function normalizeHeader(cell: string) {
+  return cell.toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+export function findColumn(header: string[], names: string[]) {
+  return header.findIndex(cell => names.includes(normalizeHeader(cell)))
+}
+
+export function requireColumn(header: string[], names: string[], label: string) {
+  const index = findColumn(header, names)
+  if (index === -1) throw new Error(`CSV is missing a ${label} column`)
+  return index
+}
+
+// Accepts epoch seconds, epoch milliseconds or anything Date.parse reads
+export function parseCsvTime(value: string) {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value)
+    return number < 1e12 ? number * 1000 : number
+  }
+  const parsed = Date.parse(value)
+  return Number.isNaN(parsed) ? null : parsed
+}
@@ -0,0 +1,67 @@
+// Minimal promise wrapper around the app's IndexedDB database. Stores are
+// created in `upgrade`; bump DB_VERSION when adding one.
+
+const DB_NAME = 'long-or-short'
+const DB_VERSION = 2
+
+export const STORES = {
+  signals: 'signals',
+  snapshots: 'snapshots'
+} as const
+
+type StoreName = typeof STORES[keyof typeof STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(STORES.signals)) {
+    const signals = db.createObjectStore(STORES.signals, { keyPath: 'id', autoIncrement: true })
+    signals.createIndex('symbol', 'symbol')
+    signals.createIndex('timestamp', 'timestamp')
+  }
+  if (!db.objectStoreNames.contains(STORES.snapshots)) {
+    db.createObjectStore(STORES.snapshots, { keyPath: 'id' })
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => upgrade(request.result)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase()
+  return requestToPromise(db.transaction(store).objectStore(store).getAll())
+}
+
+export async function get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase()
+  return requestToPromise(db.transaction(store).objectStore(store).get(key))
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<IDBValidKey> {
+  const db = await openDatabase()
+  return requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value))
+}
+
+export async function clear(store: StoreName): Promise<void> {
+  const db = await openDatabase()
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).clear())
+}
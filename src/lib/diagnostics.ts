@@ -0,0 +1,49 @@
+// Items dropped from provider responses because they failed validation,
+// kept in memory for the diagnostics panel. Entries are keyed by source and
+// item, so a coin that fails on every poll shows up once with its latest
+// reason instead of flooding the list.
+
+export interface DroppedItem {
+  // e.g. "CoinGecko markets"
+  source: string
+  // Coin id, symbol or index in the response
+  item: string
+  reason: string
+  // Epoch milliseconds of the last time it was dropped
+  droppedAt: number
+}
+
+const MAX_ENTRIES = 200
+
+let entries: DroppedItem[] = []
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach(listener => listener())
+}
+
+export function reportDropped(items: Omit<DroppedItem, 'droppedAt'>[]) {
+  if (items.length === 0) return
+  const droppedAt = Date.now()
+  const fresh = items.map(item => ({ ...item, droppedAt }))
+  const key = (item: DroppedItem) => `${item.source}\u0000${item.item}`
+  const replaced = new Set(fresh.map(key))
+  entries = [...fresh, ...entries.filter(entry => !replaced.has(key(entry)))].slice(0, MAX_ENTRIES)
+  notify()
+}
+
+export function getDroppedItems() {
+  return entries
+}
+
+export function clearDroppedItems() {
+  entries = []
+  notify()
+}
+
+export function subscribeDiagnostics(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,29 @@
+import { format, isToday } from 'date-fns'
+
+export function formatPrice(price: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: price < 1 ? 6 : 2
+  }).format(price)
+}
+
+export function formatVolume(volume: number) {
+  if (volume >= 1e9) {
+    return `$${(volume / 1e9).toFixed(2)}B`
+  } else if (volume >= 1e6) {
+    return `$${(volume / 1e6).toFixed(2)}M`
+  }
+  return `$${volume.toLocaleString()}`
+}
+
+// Funding rates are stored as fractions
+export function formatFundingRate(rate: number) {
+  return `${rate >= 0 ? '+' : ''}${(rate * 100).toFixed(4)}%`
+}
+
+// Time of day, plus the date once it is not today (an old offline snapshot)
+export function formatDataTime(timestamp: number) {
+  return format(timestamp, isToday(timestamp) ? 'HH:mm:ss' : 'MMM d, HH:mm')
+}
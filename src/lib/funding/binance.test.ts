@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearDroppedItems, getDroppedItems } from '@/lib/diagnostics'
+import { scheduledFetch } from '@/lib/scheduler'
+import { binanceFundingAdapter, parseBinanceFunding } from './binance'
+import errorResponse from './__fixtures__/binance-error.json'
+import fundingInfo from './__fixtures__/binance-funding-info.json'
+import premiumIndex from './__fixtures__/binance-premium-index.json'
+
+vi.mock('@/lib/scheduler', () => ({ scheduledFetch: vi.fn() }))
+
+describe('parseBinanceFunding', () => {
+  beforeEach(() => clearDroppedItems())
+
+  it('reads USDT perpetuals keyed by base symbol', () => {
+    const rates = parseBinanceFunding(premiumIndex, fundingInfo, ['BTC'])
+    expect(rates).toEqual({
+      BTC: { exchange: 'binance', rate: 0.0001, nextFundingTime: 1735718400000, intervalHours: 8 }
+    })
+  })
+
+  it('maps 1000-prefixed contracts to the base coin with their own interval', () => {
+    const rates = parseBinanceFunding(premiumIndex, fundingInfo, ['BONK'])
+    expect(rates.BONK).toEqual({ exchange: 'binance', rate: -0.00023456, nextFundingTime: 1735708800000, intervalHours: 4 })
+  })
+
+  it('ignores delivery and USDC contracts without reporting them', () => {
+    const rates = parseBinanceFunding(premiumIndex, fundingInfo, ['BTC', 'BONK'])
+    expect(Object.keys(rates).sort()).toEqual(['BONK', 'BTC'])
+    expect(getDroppedItems()).toEqual([])
+  })
+
+  it('drops and reports a wanted contract with a malformed rate', () => {
+    const rates = parseBinanceFunding(premiumIndex, fundingInfo, ['ETH'])
+    expect(rates).toEqual({})
+    expect(getDroppedItems()).toMatchObject([{ source: 'Binance funding', item: 'ETHUSDT' }])
+  })
+})
+
+describe('binanceFundingAdapter', () => {
+  it('fails with the exchange error instead of returning no rates', async () => {
+    vi.mocked(scheduledFetch).mockResolvedValue({ data: errorResponse, fetchedAt: Date.now() })
+    await expect(binanceFundingAdapter.fetchFundingRates(['BTC'])).rejects.toThrow(/-1003: Too many requests/)
+  })
+})
@@ -0,0 +1,91 @@
+import { z } from 'zod'
+import type { FundingRateData } from '@/types/crypto'
+import { scheduledFetch, type RateLimit } from '@/lib/scheduler'
+import { itemLabel, numeric, optionalTimestamp, parseEach, parseResponse } from '@/lib/validation'
+import { DEFAULT_FUNDING_INTERVAL_HOURS, FUNDING_STALE_WINDOW, FUNDING_TTL, contractSymbol, toBaseSymbol, type FundingRateAdapter } from './types'
+
+const API_BASE = 'https://fapi.binance.com/fapi/v1'
+
+const RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 5 }
+
+const binancePremiumIndexSchema = z.object({
+  symbol: z.string(),
+  lastFundingRate: numeric,
+  nextFundingTime: optionalTimestamp
+})
+
+const binanceFundingInfoSchema = z.object({
+  symbol: z.string(),
+  fundingIntervalHours: numeric
+})
+
+const binanceListSchema = z.array(z.unknown())
+
+// What Binance sends instead of the list on errors, e.g. rate limits
+const binanceErrorSchema = z.object({ code: z.number(), msg: z.string() })
+
+// `fundingInfo` only lists contracts whose interval differs from the default.
+// Only the contracts we were asked for are validated: the full index also
+// carries delivery contracts with no funding rate, which are not errors.
+export function parseBinanceFunding(
+  premiumIndex: unknown[],
+  fundingInfo: unknown[],
+  symbols: string[]
+): FundingRateData {
+  const isWanted = (contract: string) => contract.endsWith('USDT') && symbols.includes(toBaseSymbol(contract))
+  const entries = parseEach(
+    'Binance funding',
+    binancePremiumIndexSchema,
+    premiumIndex.filter(entry => isWanted(contractSymbol(entry))),
+    itemLabel('symbol')
+  )
+  const infos = parseEach(
+    'Binance funding intervals',
+    binanceFundingInfoSchema,
+    fundingInfo.filter(info => isWanted(contractSymbol(info))),
+    itemLabel('symbol')
+  )
+  const intervals = new Map(infos.map(info => [info.symbol, info.fundingIntervalHours]))
+  const rates: FundingRateData = {}
+
+  for (const entry of entries) {
+    const base = toBaseSymbol(entry.symbol)
+    if (base in rates) continue
+
+    rates[base] = {
+      exchange: 'binance',
+      rate: entry.lastFundingRate,
+      nextFundingTime: entry.nextFundingTime,
+      intervalHours: intervals.get(entry.symbol) ?? DEFAULT_FUNDING_INTERVAL_HOURS
+    }
+  }
+
+  return rates
+}
+
+async function getList(path: string, signal?: AbortSignal): Promise<unknown[]> {
+  const { data } = await scheduledFetch(`${API_BASE}${path}`, {
+    signal,
+    ttl: FUNDING_TTL,
+    staleWhileRevalidate: FUNDING_STALE_WINDOW,
+    rateLimit: RATE_LIMIT
+  })
+  const error = binanceErrorSchema.safeParse(data)
+  if (error.success) {
+    throw new Error(`Binance error ${error.data.code}: ${error.data.msg}`)
+  }
+  return parseResponse(`Binance ${path}`, binanceListSchema, data)
+}
+
+export const binanceFundingAdapter: FundingRateAdapter = {
+  id: 'binance',
+  name: 'Binance USDⓈ-M',
+
+  async fetchFundingRates(symbols, signal) {
+    const [premiumIndex, fundingInfo] = await Promise.all([
+      getList('/premiumIndex', signal),
+      getList('/fundingInfo', signal).catch(() => [])
+    ])
+    return parseBinanceFunding(premiumIndex, fundingInfo, symbols)
+  }
+}
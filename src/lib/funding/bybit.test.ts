@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearDroppedItems, getDroppedItems } from '@/lib/diagnostics'
+import { parseBybitFunding } from './bybit'
+import errorResponse from './__fixtures__/bybit-error.json'
+import tickers from './__fixtures__/bybit-tickers.json'
+
+describe('parseBybitFunding', () => {
+  beforeEach(() => clearDroppedItems())
+
+  it('reads linear USDT perpetuals keyed by base symbol', () => {
+    expect(parseBybitFunding(tickers, ['BTC'])).toEqual({
+      BTC: { exchange: 'bybit', rate: 0.0001, nextFundingTime: 1735718400000, intervalHours: 8 }
+    })
+  })
+
+  it('maps 1000-prefixed contracts to the base coin with their own interval', () => {
+    expect(parseBybitFunding(tickers, ['BONK']).BONK).toEqual({
+      exchange: 'bybit',
+      rate: -0.00012,
+      nextFundingTime: 1735708800000,
+      intervalHours: 4
+    })
+  })
+
+  it('skips pre-market contracts with an empty funding rate without reporting them', () => {
+    expect(parseBybitFunding(tickers, ['SOL'])).toEqual({})
+    expect(getDroppedItems()).toEqual([])
+  })
+
+  it('ignores USDC perpetuals', () => {
+    expect(Object.keys(parseBybitFunding(tickers, ['BTC', 'BONK', 'SOL'])).sort()).toEqual(['BONK', 'BTC'])
+  })
+
+  it('throws the exchange error code and message', () => {
+    expect(() => parseBybitFunding(errorResponse, ['BTC'])).toThrow('Bybit error 10001: params error: Category is invalid')
+  })
+})
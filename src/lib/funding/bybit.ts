@@ -0,0 +1,75 @@
+import { z } from 'zod'
+import type { FundingRateData } from '@/types/crypto'
+import { scheduledFetch, type RateLimit } from '@/lib/scheduler'
+import { itemLabel, numeric, optionalNumeric, optionalTimestamp, parseEach, parseResponse } from '@/lib/validation'
+import { DEFAULT_FUNDING_INTERVAL_HOURS, FUNDING_STALE_WINDOW, FUNDING_TTL, contractSymbol, toBaseSymbol, type FundingRateAdapter } from './types'
+
+const API_BASE = 'https://api.bybit.com/v5'
+
+const RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 5 }
+
+// `result` is an empty object on errors, so it is only validated once
+// retCode says the request succeeded
+const bybitStatusSchema = z.object({
+  retCode: z.number(),
+  retMsg: z.string().catch('')
+})
+
+const bybitTickersResponseSchema = z.object({
+  result: z.object({ list: z.array(z.unknown()) })
+})
+
+const bybitTickerSchema = z.object({
+  symbol: z.string(),
+  fundingRate: numeric,
+  nextFundingTime: optionalTimestamp,
+  fundingIntervalHour: optionalNumeric
+})
+
+export function parseBybitFunding(data: unknown, symbols: string[]): FundingRateData {
+  const status = parseResponse('Bybit funding', bybitStatusSchema, data)
+  if (status.retCode !== 0) {
+    throw new Error(`Bybit error ${status.retCode}: ${status.retMsg}`)
+  }
+  const response = parseResponse('Bybit funding', bybitTickersResponseSchema, data)
+
+  // Pre-market contracts have an empty funding rate; those are skipped, not
+  // reported, along with every contract we weren't asked about
+  const wanted = response.result.list.filter((ticker) => {
+    const contract = contractSymbol(ticker)
+    return contract.endsWith('USDT') &&
+      symbols.includes(toBaseSymbol(contract)) &&
+      (ticker as { fundingRate?: unknown }).fundingRate !== ''
+  })
+
+  const rates: FundingRateData = {}
+
+  for (const ticker of parseEach('Bybit funding', bybitTickerSchema, wanted, itemLabel('symbol'))) {
+    const base = toBaseSymbol(ticker.symbol)
+    if (base in rates) continue
+
+    rates[base] = {
+      exchange: 'bybit',
+      rate: ticker.fundingRate,
+      nextFundingTime: ticker.nextFundingTime,
+      intervalHours: ticker.fundingIntervalHour || DEFAULT_FUNDING_INTERVAL_HOURS
+    }
+  }
+
+  return rates
+}
+
+export const bybitFundingAdapter: FundingRateAdapter = {
+  id: 'bybit',
+  name: 'Bybit Linear',
+
+  async fetchFundingRates(symbols, signal) {
+    const { data } = await scheduledFetch(`${API_BASE}/market/tickers?category=linear`, {
+      signal,
+      ttl: FUNDING_TTL,
+      staleWhileRevalidate: FUNDING_STALE_WINDOW,
+      rateLimit: RATE_LIMIT
+    })
+    return parseBybitFunding(data, symbols)
+  }
+}
@@ -0,0 +1,46 @@
+import type { FundingRateData } from '@/types/crypto'
+import { binanceFundingAdapter } from './binance'
+import { bybitFundingAdapter } from './bybit'
+import { okxFundingAdapter } from './okx'
+import type { FundingExchangeId, FundingRateAdapter } from './types'
+
+export { DEFAULT_FUNDING_INTERVAL_HOURS } from './types'
+export type { FundingExchangeId, FundingRateAdapter } from './types'
+
+export const fundingRateAdapters: FundingRateAdapter[] = [binanceFundingAdapter, bybitFundingAdapter, okxFundingAdapter]
+
+export function getFundingRateAdapter(id: FundingExchangeId) {
+  return fundingRateAdapters.find(adapter => adapter.id === id) ?? binanceFundingAdapter
+}
+
+// Queries the preferred exchange first and fills coins it does not list
+// (e.g. HYPE is not on every venue) from the remaining exchanges in order.
+export async function fetchFundingRates(
+  symbols: string[],
+  preferred: FundingExchangeId,
+  signal?: AbortSignal
+): Promise<FundingRateData> {
+  const wanted = symbols.map(symbol => symbol.toUpperCase())
+  const adapters = [
+    getFundingRateAdapter(preferred),
+    ...fundingRateAdapters.filter(adapter => adapter.id !== preferred)
+  ]
+
+  let rates: FundingRateData = {}
+  let lastError: unknown = null
+
+  for (const adapter of adapters) {
+    const missing = wanted.filter(symbol => !(symbol in rates))
+    if (missing.length === 0) break
+
+    try {
+      rates = { ...(await adapter.fetchFundingRates(missing, signal)), ...rates }
+    } catch (error) {
+      console.warn(`${adapter.name} funding fetch failed:`, error)
+      lastError = error
+    }
+  }
+
+  if (Object.keys(rates).length === 0 && lastError) throw lastError
+  return rates
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest'
+import { scheduledFetch } from '@/lib/scheduler'
+import { okxFundingAdapter, parseOkxFunding } from './okx'
+import bonk from './__fixtures__/okx-funding-rate-bonk.json'
+import btc from './__fixtures__/okx-funding-rate-btc.json'
+import errorResponse from './__fixtures__/okx-error.json'
+
+vi.mock('@/lib/scheduler', () => ({ scheduledFetch: vi.fn() }))
+
+describe('parseOkxFunding', () => {
+  it('reads a swap keyed by base symbol, settling at the upcoming funding time', () => {
+    expect(parseOkxFunding(btc)).toEqual({
+      BTC: { exchange: 'okx', rate: 0.000087, nextFundingTime: 1735718400000, intervalHours: 8 }
+    })
+  })
+
+  it('derives the interval from the gap between the next two settlements', () => {
+    expect(parseOkxFunding(bonk).BONK.intervalHours).toBe(4)
+  })
+
+  it('falls back to the default interval when the following settlement is unknown', () => {
+    const [entry] = btc.data
+    const rates = parseOkxFunding({ ...btc, data: [{ ...entry, nextFundingTime: '' }] })
+    expect(rates.BTC.intervalHours).toBe(8)
+  })
+
+  it('throws the exchange error code and message', () => {
+    expect(() => parseOkxFunding(errorResponse)).toThrow('OKX error 51001: Instrument ID does not exist')
+  })
+})
+
+describe('okxFundingAdapter', () => {
+  const respondWith = (byInstrument: Record<string, unknown>) => {
+    vi.mocked(scheduledFetch).mockImplementation(async (url) => {
+      const instId = new URL(url).searchParams.get('instId') ?? ''
+      return { data: byInstrument[instId] ?? errorResponse, fetchedAt: 0 }
+    })
+  }
+
+  it('keeps the coins that resolved when others are not listed', async () => {
+    respondWith({ 'BTC-USDT-SWAP': btc })
+    const rates = await okxFundingAdapter.fetchFundingRates(['BTC', 'NOPE'])
+    expect(Object.keys(rates)).toEqual(['BTC'])
+  })
+
+  it('fails with the exchange error when no coin resolved', async () => {
+    respondWith({})
+    await expect(okxFundingAdapter.fetchFundingRates(['BTC', 'BONK']))
+      .rejects.toThrow('OKX error 51001: Instrument ID does not exist')
+  })
+})
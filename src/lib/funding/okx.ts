@@ -0,0 +1,76 @@
+import { z } from 'zod'
+import type { FundingRateData } from '@/types/crypto'
+import { scheduledFetch, type RateLimit } from '@/lib/scheduler'
+import { itemLabel, numeric, optionalTimestamp, parseEach, parseResponse } from '@/lib/validation'
+import { DEFAULT_FUNDING_INTERVAL_HOURS, FUNDING_STALE_WINDOW, FUNDING_TTL, toBaseSymbol, type FundingRateAdapter } from './types'
+
+const API_BASE = 'https://www.okx.com/api/v5'
+
+// One request per watched coin, against a limit of 20 per 2s
+const RATE_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 8 }
+
+const okxFundingRateResponseSchema = z.object({
+  code: z.string(),
+  msg: z.string().catch(''),
+  data: z.array(z.unknown()).catch([])
+})
+
+const okxFundingRateSchema = z.object({
+  instId: z.string().min(1),
+  fundingRate: numeric,
+  // Upcoming settlement, and the one after it
+  fundingTime: optionalTimestamp,
+  nextFundingTime: optionalTimestamp
+})
+
+export function parseOkxFunding(data: unknown): FundingRateData {
+  const response = parseResponse('OKX funding', okxFundingRateResponseSchema, data)
+  if (response.code !== '0') {
+    throw new Error(`OKX error ${response.code}: ${response.msg}`)
+  }
+
+  const rates: FundingRateData = {}
+
+  for (const entry of parseEach('OKX funding', okxFundingRateSchema, response.data, itemLabel('instId'))) {
+    const { fundingTime, nextFundingTime } = entry
+    const intervalHours = fundingTime && nextFundingTime
+      ? Math.round((nextFundingTime - fundingTime) / 3_600_000)
+      : DEFAULT_FUNDING_INTERVAL_HOURS
+
+    rates[toBaseSymbol(entry.instId)] = {
+      exchange: 'okx',
+      rate: entry.fundingRate,
+      nextFundingTime: fundingTime,
+      intervalHours
+    }
+  }
+
+  return rates
+}
+
+export const okxFundingAdapter: FundingRateAdapter = {
+  id: 'okx',
+  name: 'OKX Swap',
+
+  // OKX only serves funding per instrument, so unlisted coins just fail alone.
+  // If none succeed the exchange itself is failing, and that is reported.
+  async fetchFundingRates(symbols, signal) {
+    const results = await Promise.allSettled(symbols.map(async (symbol) => {
+      const { data } = await scheduledFetch(`${API_BASE}/public/funding-rate?instId=${symbol}-USDT-SWAP`, {
+        signal,
+        ttl: FUNDING_TTL,
+        staleWhileRevalidate: FUNDING_STALE_WINDOW,
+        rateLimit: RATE_LIMIT
+      })
+      return parseOkxFunding(data)
+    }))
+
+    const failure = results.find(result => result.status === 'rejected')
+    if (failure && results.every(result => result.status === 'rejected')) throw failure.reason
+
+    return results.reduce<FundingRateData>(
+      (rates, result) => result.status === 'fulfilled' ? { ...rates, ...result.value } : rates,
+      {}
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import type { FundingRateData } from '@/types/crypto'
+
+export type FundingExchangeId = 'binance' | 'bybit' | 'okx'
+
+export interface FundingRateAdapter {
+  id: FundingExchangeId
+  name: string
+  // Returns current funding for the given base symbols (e.g. "BTC"), keyed by
+  // upper-case base symbol. Symbols without a USDT perpetual are left out.
+  fetchFundingRates: (symbols: string[], signal?: AbortSignal) => Promise<FundingRateData>
+}
+
+export const DEFAULT_FUNDING_INTERVAL_HOURS = 8
+
+// Predicted funding drifts slowly between settlements, so there is no need
+// to ask on every price poll
+export const FUNDING_TTL = 30_000
+export const FUNDING_STALE_WINDOW = 5 * 60_000
+
+// Contract name of a raw, not yet validated response entry, or '' so it is
+// filtered out before validation
+export function contractSymbol(entry: unknown, key = 'symbol') {
+  const value = entry && typeof entry === 'object' ? (entry as Record<string, unknown>)[key] : undefined
+  return typeof value === 'string' ? value : ''
+}
+
+// Perpetual tickers for low-priced coins are quoted per 1000 (or 1M) units,
+// e.g. 1000BONKUSDT. The funding rate is the same either way.
+export function toBaseSymbol(contract: string) {
+  return contract
+    .replace(/-USDT-SWAP$|USDT$/, '')
+    .replace(/^(1000000|1000)(?=[A-Z])/, '')
+}
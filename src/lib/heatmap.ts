@@ -0,0 +1,140 @@
+import type { CryptoData, FundingRate } from '@/types/crypto'
+
+// Providers don't report sectors, so coins are grouped by a hand-kept symbol
+// list. Anything not listed lands in "Other".
+export const HEATMAP_CATEGORIES = {
+  l1: {
+    label: 'Layer 1s',
+    symbols: ['btc', 'eth', 'sol', 'ada', 'avax', 'dot', 'near', 'sui', 'sei', 'apt', 'trx', 'ton', 'atom', 'algo', 'icp', 'hbar', 'xlm', 'xrp', 'ltc', 'bch', 'etc', 'kas', 'inj', 'tia', 'ftm', 's', 'egld', 'xtz', 'eos']
+  },
+  l2: {
+    label: 'Layer 2s',
+    symbols: ['arb', 'op', 'pol', 'matic', 'mnt', 'strk', 'imx', 'zk', 'stx', 'metis', 'blast']
+  },
+  meme: {
+    label: 'Memecoins',
+    symbols: ['doge', 'shib', 'pepe', 'bonk', 'wif', 'floki', 'brett', 'popcat', 'trump', 'mog', 'pengu', 'fartcoin', 'spx', 'bome', 'neiro']
+  },
+  defi: {
+    label: 'DeFi',
+    symbols: ['uni', 'aave', 'mkr', 'sky', 'crv', 'ldo', 'jup', 'hype', 'ena', 'pendle', 'ray', 'cake', 'comp', 'snx', 'dydx', '1inch', 'gmx', 'morpho']
+  },
+  infra: {
+    label: 'Oracles & infra',
+    symbols: ['link', 'pyth', 'grt', 'fil', 'ar', 'rndr', 'render', 'tao', 'fet', 'ondo', 'qnt', 'w']
+  },
+  exchange: {
+    label: 'Exchange tokens',
+    symbols: ['bnb', 'okb', 'cro', 'leo', 'gt', 'kcs', 'bgb']
+  },
+  other: { label: 'Other', symbols: [] }
+} as const
+
+export type HeatmapCategory = keyof typeof HEATMAP_CATEGORIES
+
+// A dollar-pegged coin has no price move to show and its volume would
+// swamp every other tile
+const STABLECOINS = new Set(['usdt', 'usdc', 'dai', 'fdusd', 'tusd', 'usde', 'usds', 'pyusd', 'usd1', 'busd'])
+
+export const HEATMAP_SIZE_METRICS = {
+  volume: 'Volume 24h',
+  marketCap: 'Market cap'
+} as const
+
+export type HeatmapSizeMetric = keyof typeof HEATMAP_SIZE_METRICS
+
+// `limit` is the value at which a tile reaches full color
+export const HEATMAP_COLOR_METRICS = {
+  change24h: { label: '24h change', limit: 10 },
+  change7d: { label: '7d change', limit: 25 },
+  funding: { label: 'Funding rate', limit: 0.05 }
+} as const
+
+export type HeatmapColorMetric = keyof typeof HEATMAP_COLOR_METRICS
+
+export interface HeatmapTile {
+  id: string
+  name: string
+  symbol: string
+  size: number
+  // Percent; null when the metric is unavailable for the coin
+  change: number | null
+}
+
+export interface HeatmapGroup {
+  category: HeatmapCategory
+  name: string
+  size: number
+  children: HeatmapTile[]
+}
+
+export function coinCategory(symbol: string): HeatmapCategory {
+  const lower = symbol.toLowerCase()
+  const match = (Object.keys(HEATMAP_CATEGORIES) as HeatmapCategory[])
+    .find(key => (HEATMAP_CATEGORIES[key].symbols as readonly string[]).includes(lower))
+  return match ?? 'other'
+}
+
+// Neither provider reports market cap directly; Binance has no supply data
+// at all, so those coins have no market-cap size
+function tileSize(crypto: CryptoData, metric: HeatmapSizeMetric) {
+  if (metric === 'volume') return crypto.total_volume
+  return crypto.circulating_supply !== null ? crypto.current_price * crypto.circulating_supply : null
+}
+
+function tileChange(crypto: CryptoData, funding: FundingRate | undefined, metric: HeatmapColorMetric) {
+  switch (metric) {
+    case 'change24h': return crypto.price_change_percentage_24h
+    case 'change7d': return crypto.price_change_percentage_7d
+    case 'funding': return funding ? funding.rate * 100 : null
+  }
+}
+
+// Coins without a size for the chosen metric are left out and counted in
+// `skipped` so the page can say so
+export function buildHeatmap(
+  markets: CryptoData[],
+  fundingRates: Record<string, FundingRate>,
+  sizeMetric: HeatmapSizeMetric,
+  colorMetric: HeatmapColorMetric
+) {
+  const groups = new Map<HeatmapCategory, HeatmapTile[]>()
+  let skipped = 0
+
+  for (const crypto of markets) {
+    if (STABLECOINS.has(crypto.symbol.toLowerCase())) continue
+    const size = tileSize(crypto, sizeMetric)
+    if (!size || size <= 0) {
+      skipped++
+      continue
+    }
+
+    const category = coinCategory(crypto.symbol)
+    const tiles = groups.get(category) ?? []
+    tiles.push({
+      id: crypto.id,
+      name: crypto.name,
+      symbol: crypto.symbol.toUpperCase(),
+      size,
+      change: tileChange(crypto, fundingRates[crypto.symbol.toUpperCase()], colorMetric)
+    })
+    groups.set(category, tiles)
+  }
+
+  const result: HeatmapGroup[] = [...groups.entries()].map(([category, children]) => ({
+    category,
+    name: HEATMAP_CATEGORIES[category].label,
+    size: children.reduce((sum, tile) => sum + tile.size, 0),
+    children
+  }))
+
+  return { groups: result.sort((a, b) => b.size - a.size), skipped }
+}
+
+// Diverging red/green scale, grey at zero and when there is no data
+export function heatColor(change: number | null, limit: number) {
+  if (change === null) return 'hsl(220 9% 30%)'
+  const strength = Math.min(Math.abs(change) / limit, 1)
+  const hue = change >= 0 ? 142 : 0
+  return `hsl(${hue} ${Math.round(10 + strength * 60)}% ${Math.round(30 + strength * 10)}%)`
+}
@@ -0,0 +1,105 @@
+import type { Candle } from '@/types/crypto'
+
+export type CprPeriod = 'daily' | 'weekly' | 'monthly'
+
+export type CprPosition = 'above' | 'inside' | 'below'
+
+export interface CprLevels {
+  period: CprPeriod
+  pivot: number
+  bc: number
+  tc: number
+  r1: number
+  r2: number
+  r3: number
+  s1: number
+  s2: number
+  s3: number
+  // Distance between TC and BC as a percent of the pivot
+  widthPercent: number
+}
+
+export type CprSet = Record<CprPeriod, CprLevels | null>
+
+export const CPR_PERIODS: CprPeriod[] = ['daily', 'weekly', 'monthly']
+
+// Common rule of thumb: a narrow range hints at a trending session, a wide
+// one at a sideways session
+export const NARROW_CPR_PERCENT = 0.25
+export const WIDE_CPR_PERCENT = 0.75
+
+interface PeriodOhlc {
+  high: number
+  low: number
+  close: number
+}
+
+export function computeCpr(period: CprPeriod, { high, low, close }: PeriodOhlc): CprLevels {
+  const pivot = (high + low + close) / 3
+  const bc = (high + low) / 2
+  const tc = 2 * pivot - bc
+  const range = high - low
+
+  return {
+    period,
+    pivot,
+    // TC is below BC when the close is under the midpoint; keep tc the top
+    bc: Math.min(bc, tc),
+    tc: Math.max(bc, tc),
+    r1: 2 * pivot - low,
+    r2: pivot + range,
+    r3: high + 2 * (pivot - low),
+    s1: 2 * pivot - high,
+    s2: pivot - range,
+    s3: low - 2 * (high - pivot),
+    widthPercent: pivot ? (Math.abs(tc - bc) / pivot) * 100 : 0
+  }
+}
+
+// Period buckets follow exchange conventions: UTC days, weeks starting
+// Monday, calendar months
+function periodKey(time: number, period: CprPeriod) {
+  const date = new Date(time)
+  if (period === 'monthly') return date.toISOString().slice(0, 7)
+  if (period === 'weekly') {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7
+    date.setUTCDate(date.getUTCDate() - daysSinceMonday)
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+// Aggregates daily candles into the last complete period before `now`
+export function previousPeriodOhlc(dailyCandles: Candle[], period: CprPeriod, now = Date.now()): PeriodOhlc | null {
+  const currentKey = periodKey(now, period)
+  const completed = dailyCandles.filter(candle => periodKey(candle.time, period) < currentKey)
+  if (completed.length === 0) return null
+
+  const lastKey = periodKey(completed[completed.length - 1].time, period)
+  const candles = completed.filter(candle => periodKey(candle.time, period) === lastKey)
+
+  return {
+    high: Math.max(...candles.map(c => c.high)),
+    low: Math.min(...candles.map(c => c.low)),
+    close: candles[candles.length - 1].close
+  }
+}
+
+export function computeCprSet(dailyCandles: Candle[], now = Date.now()): CprSet {
+  const entries = CPR_PERIODS.map((period) => {
+    const ohlc = previousPeriodOhlc(dailyCandles, period, now)
+    return [period, ohlc ? computeCpr(period, ohlc) : null] as const
+  })
+  return Object.fromEntries(entries) as CprSet
+}
+
+export function getCprPosition(price: number, levels: CprLevels): CprPosition {
+  if (price > levels.tc) return 'above'
+  if (price < levels.bc) return 'below'
+  return 'inside'
+}
+
+export function getCprWidthLabel(levels: CprLevels) {
+  if (levels.widthPercent < NARROW_CPR_PERCENT) return 'narrow'
+  if (levels.widthPercent > WIDE_CPR_PERCENT) return 'wide'
+  return 'normal'
+}
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchFundingRates } from '@/lib/funding'
+import { createMarketFeed, type MarketFeed } from '@/lib/market-feed'
+import { getMarketState, setMarkets, setMarketStatus } from '@/lib/market-store'
+import type { MarketDataProvider } from '@/lib/providers'
+
+vi.mock('@/lib/funding', () => ({ fetchFundingRates: vi.fn() }))
+vi.mock('@/lib/snapshot', () => ({ restoreMarketSnapshot: vi.fn() }))
+
+const COINS = [{ id: 'bitcoin', symbol: 'btc', name: 'Bitcoin', image: '' }]
+
+describe('createMarketFeed', () => {
+  const fetchMarkets = vi.fn()
+  let feed: MarketFeed
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    fetchMarkets.mockReset().mockRejectedValue(new Error('HTTP 503'))
+    vi.mocked(fetchFundingRates).mockResolvedValue({})
+    setMarkets([])
+    setMarketStatus({ error: null })
+
+    feed = createMarketFeed({
+      provider: { id: 'binance', name: 'Binance', fetchMarkets } as unknown as MarketDataProvider,
+      watchlist: COINS,
+      fundingExchange: 'binance',
+      refreshInterval: 5000
+    })
+    feed.start()
+  })
+
+  afterEach(() => {
+    feed.stop()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('reports the failure once the retries run out, despite faster polls', async () => {
+    // Retries at 1s, 3s and 7s; the 5s poll must not restart the backoff
+    await vi.advanceTimersByTimeAsync(6999)
+    expect(getMarketState().error).toBeNull()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetchMarkets).toHaveBeenCalledTimes(4)
+    expect(getMarketState().error).toBe('Connection failed after 4 attempts. Showing the last saved data.')
+  })
+
+  it('keeps the banner through later failures and clears it once prices load', async () => {
+    await vi.advanceTimersByTimeAsync(7000)
+    expect(getMarketState().error).not.toBeNull()
+
+    // The 10s poll starts a new round, which fails again
+    await vi.advanceTimersByTimeAsync(3000)
+    expect(fetchMarkets).toHaveBeenCalledTimes(5)
+    expect(getMarketState().error).not.toBeNull()
+
+    fetchMarkets.mockResolvedValue([])
+    feed.fetchNow()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(getMarketState().error).toBeNull()
+  })
+})
@@ -0,0 +1,133 @@
+// Polls a market data provider into the market store. Failed fetches keep the
+// last real data on screen and retry with backoff. Regular polls skip while a
+// fetch or a retry is pending instead of restarting the backoff, so a feed
+// that stays down reports the failure once the retries run out.
+
+import type { CoinInfo } from '@/lib/coins'
+import { fetchFundingRates, type FundingExchangeId } from '@/lib/funding'
+import {
+  getMarketState,
+  marketKey,
+  selectMarketList,
+  setFundingRates,
+  setMarkets,
+  setMarketStatus
+} from '@/lib/market-store'
+import type { MarketDataProvider } from '@/lib/providers'
+import { restoreMarketSnapshot } from '@/lib/snapshot'
+
+const MAX_RETRIES = 3
+
+export interface MarketFeedOptions {
+  provider: MarketDataProvider
+  watchlist: CoinInfo[]
+  fundingExchange: FundingExchangeId
+  refreshInterval: number
+  // Checked before every regular poll, e.g. to skip hidden or offline tabs
+  shouldPoll?: () => boolean
+}
+
+export interface MarketFeed {
+  start: () => void
+  stop: () => void
+  // Regular refresh; joins a pending retry rather than cancelling it
+  poll: () => void
+  // Explicit refresh (the Retry button); starts a fresh round of retries
+  fetchNow: () => void
+}
+
+// Keeps the real data already in the store, which then ages into STALE on
+// screen. With nothing loaded yet (say, starting offline) the last saved
+// snapshot is shown instead, never sample prices.
+async function keepLastKnownGood(watchlist: CoinInfo[]) {
+  const watched = new Set(watchlist.map(coin => marketKey(coin.symbol)))
+  const kept = selectMarketList(getMarketState()).filter(coin => watched.has(marketKey(coin.symbol)))
+  setMarkets(kept)
+  if (kept.length === 0) await restoreMarketSnapshot(watchlist)
+}
+
+export function createMarketFeed({
+  provider,
+  watchlist,
+  fundingExchange,
+  refreshInterval,
+  shouldPoll = () => true
+}: MarketFeedOptions): MarketFeed {
+  let stopped = true
+  let interval: ReturnType<typeof setInterval> | undefined
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let fetching = false
+
+  const fetchMarketData = async (retryCount = 0) => {
+    retryTimer = undefined
+    fetching = true
+
+    try {
+      try {
+        setMarkets(await provider.fetchMarkets(watchlist))
+      } catch (fetchError) {
+        // Keep showing the last real data while the retries below run
+        await keepLastKnownGood(watchlist)
+        throw fetchError
+      }
+      // The banner stays up until prices actually load again
+      setMarketStatus({ error: null })
+
+      // Funding rates are extra detail on top of prices, so a failure here
+      // keeps the last known rates instead of failing the whole refresh
+      try {
+        const symbols = watchlist.map(coin => coin.symbol)
+        setFundingRates(await fetchFundingRates(symbols, fundingExchange))
+      } catch (fundingError) {
+        console.warn('Funding rate fetch failed, keeping last known rates:', fundingError)
+      }
+    } catch (err) {
+      console.error('Crypto data fetch error:', err)
+      if (stopped) return
+
+      // Exponential backoff retry logic
+      if (retryCount < MAX_RETRIES) {
+        const delay = Math.pow(2, retryCount) * 1000 // 1s, 2s, 4s
+        console.log(`Retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRIES})`)
+        retryTimer = setTimeout(() => fetchMarketData(retryCount + 1), delay)
+        return
+      }
+
+      setMarketStatus({ error: `Connection failed after ${retryCount + 1} attempts. Showing the last saved data.` })
+    } finally {
+      fetching = false
+      if (!stopped) setMarketStatus({ loading: false })
+    }
+  }
+
+  const poll = () => {
+    if (stopped || fetching || retryTimer !== undefined) return
+    fetchMarketData()
+  }
+
+  return {
+    start() {
+      if (!stopped) return
+      stopped = false
+      fetchMarketData()
+      interval = setInterval(() => {
+        if (shouldPoll()) poll()
+      }, refreshInterval)
+    },
+
+    stop() {
+      stopped = true
+      clearInterval(interval)
+      clearTimeout(retryTimer)
+      retryTimer = undefined
+    },
+
+    poll,
+
+    fetchNow() {
+      if (stopped || fetching) return
+      clearTimeout(retryTimer)
+      fetchMarketData()
+    }
+  }
+}
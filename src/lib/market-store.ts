@@ -0,0 +1,159 @@
+import { mergeMiniTickers } from '@/lib/streaming/merge-tickers'
+import type { SignalExplanation } from '@/lib/signals/explain'
+import type { MiniTicker } from '@/lib/streaming/ticker-stream'
+import type { CryptoData, FundingRate, FundingRateData } from '@/types/crypto'
+
+// Market data for the watchlist, shared by every page. Coins and funding
+// rates are keyed by upper-case symbol and every update keeps the previous
+// object for anything that did not change, so a component selecting one coin
+// only re-renders when that coin does.
+
+export interface MarketState {
+  coins: Record<string, CryptoData>
+  // Symbols in the order the provider returned them
+  order: string[]
+  fundingRates: FundingRateData
+  loading: boolean
+  error: string | null
+  // Signals from a restored offline snapshot, with the fetch time of the
+  // data they were evaluated on
+  savedSignals: Record<string, { fetchedAt: number; explanation: SignalExplanation }>
+}
+
+let state: MarketState = {
+  coins: {},
+  order: [],
+  fundingRates: {},
+  loading: true,
+  error: null,
+  savedSignals: {}
+}
+
+const listeners = new Set<() => void>()
+
+export function getMarketState() {
+  return state
+}
+
+export function subscribeMarket(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function setState(patch: Partial<MarketState>) {
+  state = { ...state, ...patch }
+  listeners.forEach(listener => listener())
+}
+
+export function marketKey(symbol: string) {
+  return symbol.toUpperCase()
+}
+
+function isRecord(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+}
+
+// Nested objects (a coin's provenance) are compared one level down, since
+// every fetch rebuilds them even when the values are the same
+function shallowEqual<T extends object>(a: T, b: T, depth = 1): boolean {
+  const keys = Object.keys(a) as (keyof T)[]
+  return keys.length === Object.keys(b).length && keys.every((key) => {
+    const left = a[key]
+    const right = b[key]
+    if (left === right) return true
+    return depth > 0 && isRecord(left) && isRecord(right) && shallowEqual(left, right, depth - 1)
+  })
+}
+
+// Reuses `prev[key]` wherever the new value has the same fields
+function reconcile<T extends object>(prev: Record<string, T>, next: Record<string, T>) {
+  let changed = Object.keys(prev).length !== Object.keys(next).length
+  const merged: Record<string, T> = {}
+  for (const [key, value] of Object.entries(next)) {
+    const previous = prev[key]
+    if (previous && shallowEqual(previous, value)) {
+      merged[key] = previous
+    } else {
+      merged[key] = value
+      changed = true
+    }
+  }
+  return changed ? merged : prev
+}
+
+export function setMarkets(markets: CryptoData[]) {
+  const order = markets.map(market => marketKey(market.symbol))
+  const coins = reconcile(state.coins, Object.fromEntries(markets.map(market => [marketKey(market.symbol), market])))
+  const sameOrder = order.length === state.order.length && order.every((key, index) => key === state.order[index])
+  if (coins === state.coins && sameOrder) return
+  setState({ coins, order: sameOrder ? state.order : order })
+}
+
+export function applyTickers(tickers: MiniTicker[]) {
+  const current = state.order.map(key => state.coins[key])
+  const merged = mergeMiniTickers(current, tickers)
+  if (merged === current) return
+  setMarkets(merged)
+}
+
+// Fills an empty store from the last saved snapshot. Returns false (and
+// changes nothing) if real data got there first.
+export function restoreMarkets(markets: CryptoData[], fundingRates: FundingRateData, signals: SignalExplanation[]) {
+  if (state.order.length > 0) return false
+  const fetchedAt = new Map(markets.map(market => [marketKey(market.symbol), market.provenance.fetchedAt]))
+  const savedSignals = Object.fromEntries(signals.flatMap((explanation) => {
+    const key = marketKey(explanation.symbol)
+    const coinFetchedAt = fetchedAt.get(key)
+    return coinFetchedAt === undefined ? [] : [[key, { fetchedAt: coinFetchedAt, explanation }]]
+  }))
+  setState({
+    coins: Object.fromEntries(markets.map(market => [
+      marketKey(market.symbol),
+      { ...market, provenance: { ...market.provenance, restored: true } }
+    ])),
+    order: markets.map(market => marketKey(market.symbol)),
+    // Rates that did load this session beat saved ones
+    fundingRates: Object.keys(state.fundingRates).length > 0 ? state.fundingRates : fundingRates,
+    savedSignals
+  })
+  return true
+}
+
+export function setFundingRates(rates: FundingRateData) {
+  const fundingRates = reconcile<FundingRate>(state.fundingRates, rates)
+  if (fundingRates !== state.fundingRates) setState({ fundingRates })
+}
+
+export function setMarketStatus(patch: Partial<Pick<MarketState, 'loading' | 'error'>>) {
+  const keys = Object.keys(patch) as (keyof typeof patch)[]
+  if (keys.some(key => patch[key] !== state[key])) setState(patch)
+}
+
+// Selectors. The list is memoized on the coin map so array consumers get a
+// stable reference between unrelated updates (e.g. funding or status only).
+let listCache: { coins: MarketState['coins']; order: string[]; list: CryptoData[] } | null = null
+
+export function selectMarketList(market: MarketState) {
+  if (!listCache || listCache.coins !== market.coins || listCache.order !== market.order) {
+    listCache = { coins: market.coins, order: market.order, list: market.order.map(key => market.coins[key]) }
+  }
+  return listCache.list
+}
+
+export function selectCoin(market: MarketState, symbol: string): CryptoData | undefined {
+  return market.coins[marketKey(symbol)]
+}
+
+// The saved signal for a coin, but only while the coin still shows the data
+// it was evaluated on. Offline the inputs that need the network (CPR) are
+// missing, so re-evaluating would not match what was on screen.
+export function selectSavedSignal(market: MarketState, symbol: string): SignalExplanation | undefined {
+  const saved = market.savedSignals[marketKey(symbol)]
+  return saved && selectCoin(market, symbol)?.provenance.fetchedAt === saved.fetchedAt ? saved.explanation : undefined
+}
+
+export function selectFundingRate(market: MarketState, symbol: string): FundingRate | undefined {
+  return market.fundingRates[marketKey(symbol)]
+}
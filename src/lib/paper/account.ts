@@ -0,0 +1,222 @@
+import { formatPrice } from '@/lib/format'
+import type { FundingRateData } from '@/types/crypto'
+
+export type PositionSide = 'long' | 'short'
+
+export interface PaperSettings {
+  // Collateral committed per new position, in USD
+  margin: number
+  leverage: number
+  // Taker fee per side, percent of notional
+  feePercent: number
+  // Open and flip positions whenever a coin's signal changes
+  autoFollow: boolean
+}
+
+export interface PaperPosition {
+  id: string
+  symbol: string
+  side: PositionSide
+  quantity: number
+  entryPrice: number
+  leverage: number
+  // Isolated margin left in the position; funding is paid out of it
+  margin: number
+  openedAt: number
+  entryFee: number
+  // Net funding paid so far; negative when the position was paid
+  funding: number
+  // null until a funding rate for the coin has been seen
+  nextFundingTime: number | null
+  source: 'manual' | 'auto'
+}
+
+export type CloseReason = 'manual' | 'signal' | 'liquidation'
+
+export interface PaperTrade extends Omit<PaperPosition, 'nextFundingTime'> {
+  exitPrice: number
+  closedAt: number
+  exitFee: number
+  // After fees and funding
+  realizedPnl: number
+  closeReason: CloseReason
+}
+
+export interface PaperAccount {
+  // Free collateral not locked in positions
+  balance: number
+  positions: PaperPosition[]
+  trades: PaperTrade[]
+  settings: PaperSettings
+}
+
+export const INITIAL_PAPER_BALANCE = 10_000
+// Typical tier-1 maintenance margin on major perpetuals
+export const MAINTENANCE_MARGIN_RATE = 0.005
+
+export const DEFAULT_PAPER_ACCOUNT: PaperAccount = {
+  balance: INITIAL_PAPER_BALANCE,
+  positions: [],
+  trades: [],
+  settings: { margin: 1_000, leverage: 5, feePercent: 0.05, autoFollow: false }
+}
+
+const HOUR = 3_600_000
+const MAX_TRADE_HISTORY = 500
+
+function direction(side: PositionSide) {
+  return side === 'long' ? 1 : -1
+}
+
+export function unrealizedPnl(position: PaperPosition, price: number) {
+  return direction(position.side) * position.quantity * (price - position.entryPrice)
+}
+
+// Price at which the remaining margin falls to the maintenance requirement.
+// Funding paid out of the margin moves it closer to the entry.
+export function liquidationPrice(position: Pick<PaperPosition, 'side' | 'quantity' | 'entryPrice' | 'margin'>) {
+  const { quantity, entryPrice, margin } = position
+  const price = position.side === 'long'
+    ? (quantity * entryPrice - margin) / (quantity * (1 - MAINTENANCE_MARGIN_RATE))
+    : (quantity * entryPrice + margin) / (quantity * (1 + MAINTENANCE_MARGIN_RATE))
+  return Math.max(0, price)
+}
+
+export function accountEquity(account: PaperAccount, prices: Record<string, number>) {
+  return account.positions.reduce((total, position) => {
+    const price = prices[position.symbol] ?? position.entryPrice
+    return total + position.margin + unrealizedPnl(position, price)
+  }, account.balance)
+}
+
+export function openPosition(
+  account: PaperAccount,
+  symbol: string,
+  side: PositionSide,
+  price: number,
+  source: PaperPosition['source'],
+  now = Date.now()
+): PaperAccount {
+  const { margin, leverage, feePercent } = account.settings
+  const notional = margin * leverage
+  const entryFee = notional * (feePercent / 100)
+  if (margin <= 0) throw new Error('Set a margin above zero')
+  if (margin + entryFee > account.balance) {
+    throw new Error(`Not enough balance for ${formatPrice(margin + entryFee)} margin and fees`)
+  }
+
+  const position: PaperPosition = {
+    id: crypto.randomUUID(),
+    symbol: symbol.toUpperCase(),
+    side,
+    quantity: notional / price,
+    entryPrice: price,
+    leverage,
+    margin,
+    openedAt: now,
+    entryFee,
+    funding: 0,
+    nextFundingTime: null,
+    source
+  }
+
+  return {
+    ...account,
+    balance: account.balance - margin - entryFee,
+    positions: [...account.positions, position]
+  }
+}
+
+export function closePosition(
+  account: PaperAccount,
+  id: string,
+  price: number,
+  reason: CloseReason,
+  now = Date.now()
+): PaperAccount {
+  const position = account.positions.find(p => p.id === id)
+  if (!position) return account
+
+  const gross = unrealizedPnl(position, price)
+  const exitFee = position.quantity * price * (account.settings.feePercent / 100)
+  // A liquidation forfeits whatever margin is left to the insurance fund
+  const returned = reason === 'liquidation' ? 0 : Math.max(0, position.margin + gross - exitFee)
+  const initialMargin = position.margin + position.funding
+
+  const { nextFundingTime: _, ...closed } = position
+  const trade: PaperTrade = {
+    ...closed,
+    exitPrice: price,
+    closedAt: now,
+    exitFee: reason === 'liquidation' ? 0 : exitFee,
+    realizedPnl: returned - initialMargin - position.entryFee,
+    closeReason: reason
+  }
+
+  return {
+    ...account,
+    balance: account.balance + returned,
+    positions: account.positions.filter(p => p.id !== id),
+    trades: [trade, ...account.trades].slice(0, MAX_TRADE_HISTORY)
+  }
+}
+
+function nextSettlement(intervalHours: number, now: number) {
+  const interval = intervalHours * HOUR
+  return Math.floor(now / interval) * interval + interval
+}
+
+// Runs on every data refresh: charges funding for each settlement that
+// passed since the last call and liquidates positions whose mark price
+// crossed the liquidation price. Returns the same object when nothing
+// changed so callers can skip persisting it.
+export function settleAccount(
+  account: PaperAccount,
+  prices: Record<string, number>,
+  fundingRates: FundingRateData,
+  now = Date.now()
+): { account: PaperAccount; liquidated: PaperTrade[] } {
+  let changed = false
+  let next = account
+
+  const positions = account.positions.map((position) => {
+    const funding = fundingRates[position.symbol]
+    const price = prices[position.symbol]
+    if (!funding || price === undefined) return position
+
+    if (position.nextFundingTime === null) {
+      changed = true
+      return { ...position, nextFundingTime: funding.nextFundingTime ?? nextSettlement(funding.intervalHours, now) }
+    }
+
+    let updated = position
+    while (updated.nextFundingTime !== null && updated.nextFundingTime <= now) {
+      // Longs pay shorts when the rate is positive
+      const payment = direction(updated.side) * funding.rate * updated.quantity * price
+      updated = {
+        ...updated,
+        margin: updated.margin - payment,
+        funding: updated.funding + payment,
+        nextFundingTime: updated.nextFundingTime + funding.intervalHours * HOUR
+      }
+    }
+    if (updated !== position) changed = true
+    return updated
+  })
+  if (changed) next = { ...account, positions }
+
+  const liquidated: PaperTrade[] = []
+  for (const position of next.positions) {
+    const price = prices[position.symbol]
+    if (price === undefined) continue
+
+    const liquidation = liquidationPrice(position)
+    const breached = position.side === 'long' ? price <= liquidation : price >= liquidation
+    if (!breached) continue
+
+    next = closePosition(next, position.id, liquidation, 'liquidation', now)
+    liquidated.push(next.trades[0])
+  }
+
+  return { account: next, liquidated }
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod'
+import { findColumn, parseCsvTime, requireColumn, splitCsvRows } from '@/lib/csv'
+import type { Candle, CryptoData } from '@/types/crypto'
+
+export const newLotSchema = z.object({
+  symbol: z.string().trim().min(1, 'Pick a coin').transform(symbol => symbol.toUpperCase()),
+  quantity: z.number({ error: 'Enter a quantity' }).positive('Quantity must be above zero'),
+  price: z.number({ error: 'Enter a price' }).min(0, 'Price cannot be negative'),
+  // Purchase day, YYYY-MM-DD
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter a date')
+})
+
+export const lotSchema = newLotSchema.extend({ id: z.string().min(1) })
+
+export type NewLot = z.infer<typeof newLotSchema>
+export type Lot = z.infer<typeof lotSchema>
+
+export interface Holding {
+  symbol: string
+  lots: Lot[]
+  quantity: number
+  // Total paid
+  cost: number
+  averageCost: number
+  // Undefined when the coin is not loaded, e.g. not on the watchlist
+  market?: CryptoData
+  value: number | null
+  unrealizedPnl: number | null
+  unrealizedPercent: number | null
+  // Value change over the last 24h at the current quantity
+  change24h: number | null
+  allocationPercent: number | null
+}
+
+export interface PortfolioTotals {
+  // Only coins with a known price count towards value and P&L
+  value: number
+  cost: number
+  unrealizedPnl: number
+  change24h: number
+  change24hPercent: number
+}
+
+export interface ValuePoint {
+  time: number
+  value: number
+  cost: number
+}
+
+const DAY = 86_400_000
+
+export function lotTime(lot: Lot) {
+  return Date.parse(`${lot.date}T00:00:00Z`)
+}
+
+export function computeHoldings(lots: Lot[], markets: CryptoData[]): { holdings: Holding[]; totals: PortfolioTotals } {
+  const bySymbol = new Map<string, Lot[]>()
+  for (const lot of lots) bySymbol.set(lot.symbol, [...(bySymbol.get(lot.symbol) ?? []), lot])
+
+  const holdings: Holding[] = [...bySymbol].map(([symbol, coinLots]) => {
+    const quantity = coinLots.reduce((sum, lot) => sum + lot.quantity, 0)
+    const cost = coinLots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0)
+    const market = markets.find(m => m.symbol.toUpperCase() === symbol)
+    const value = market ? quantity * market.current_price : null
+    const change = market?.price_change_percentage_24h
+
+    return {
+      symbol,
+      lots: coinLots,
+      quantity,
+      cost,
+      averageCost: cost / quantity,
+      market,
+      value,
+      unrealizedPnl: value !== null ? value - cost : null,
+      unrealizedPercent: value !== null && cost > 0 ? ((value - cost) / cost) * 100 : null,
+      change24h: value !== null && change !== undefined ? value - value / (1 + change / 100) : null,
+      allocationPercent: null
+    }
+  })
+
+  const priced = holdings.filter(holding => holding.value !== null)
+  const value = priced.reduce((sum, holding) => sum + holding.value!, 0)
+  const cost = priced.reduce((sum, holding) => sum + holding.cost, 0)
+  const change24h = priced.reduce((sum, holding) => sum + (holding.change24h ?? 0), 0)
+
+  for (const holding of priced) {
+    holding.allocationPercent = value > 0 ? (holding.value! / value) * 100 : 0
+  }
+  holdings.sort((a, b) => (b.value ?? -1) - (a.value ?? -1))
+
+  return {
+    holdings,
+    totals: {
+      value,
+      cost,
+      unrealizedPnl: value - cost,
+      change24h,
+      change24hPercent: value - change24h > 0 ? (change24h / (value - change24h)) * 100 : 0
+    }
+  }
+}
+
+// Daily portfolio value from each coin's daily closes, counting a lot from
+// its purchase day onwards. Until a coin's first candle the lot is valued at
+// its purchase price; later gaps carry the last close forward.
+export function computeValueHistory(lots: Lot[], dailyCandles: Record<string, Candle[]>): ValuePoint[] {
+  if (lots.length === 0) return []
+  const start = Math.min(...lots.map(lotTime))
+  const days = [...new Set(Object.values(dailyCandles).flat().map(candle => Math.floor(candle.time / DAY) * DAY))]
+    .filter(day => day >= start)
+    .sort((a, b) => a - b)
+
+  const closes = Object.fromEntries(Object.entries(dailyCandles).map(([symbol, candles]) => [
+    symbol,
+    new Map(candles.map(candle => [Math.floor(candle.time / DAY) * DAY, candle.close]))
+  ]))
+  const lastClose: Record<string, number> = {}
+
+  return days.map((day) => {
+    let value = 0
+    let cost = 0
+    for (const [symbol, dayCloses] of Object.entries(closes)) {
+      const close = dayCloses.get(day)
+      if (close !== undefined) lastClose[symbol] = close
+    }
+    for (const lot of lots) {
+      if (lotTime(lot) > day) continue
+      cost += lot.quantity * lot.price
+      value += lot.quantity * (lastClose[lot.symbol] ?? lot.price)
+    }
+    return { time: day, value, cost }
+  })
+}
+
+// symbol,quantity,price,date — the column names most exports use are accepted
+export function parseLotsCsv(text: string): NewLot[] {
+  const [header, ...rows] = splitCsvRows(text)
+  if (!header) throw new Error('CSV is empty')
+
+  const symbolColumn = requireColumn(header, ['symbol', 'coin', 'asset', 'ticker'], 'symbol')
+  const quantityColumn = requireColumn(header, ['quantity', 'qty', 'amount', 'size'], 'quantity')
+  const priceColumn = requireColumn(header, ['price', 'cost', 'price_usd', 'buy_price'], 'price')
+  const dateColumn = findColumn(header, ['date', 'time', 'timestamp', 'datetime'])
+
+  return rows.map((row, index) => {
+    const time = dateColumn === -1 ? Date.now() : parseCsvTime(row[dateColumn] ?? '')
+    const parsed = newLotSchema.safeParse({
+      symbol: row[symbolColumn] ?? '',
+      quantity: Number(row[quantityColumn]),
+      price: Number(row[priceColumn]),
+      date: time !== null ? new Date(time).toISOString().slice(0, 10) : ''
+    })
+    if (!parsed.success) {
+      // +2: one for the header, one for 1-based line numbers
+      throw new Error(`Line ${index + 2}: ${parsed.error.issues[0].message}`)
+    }
+    return parsed.data
+  })
+}
@@ -0,0 +1,33 @@
+import type { CryptoData, DataProvenance } from '@/types/crypto'
+
+// Past this age data is marked STALE. The scheduler serves cached responses
+// for up to a couple of minutes while an API is throttling, so normal polling
+// stays well under it.
+export const STALE_AFTER_MS = 2 * 60_000
+
+export function isStale(fetchedAt: number, now = Date.now()) {
+  return now - fetchedAt > STALE_AFTER_MS
+}
+
+export function liveProvenance(source: string, fetchedAt: number): DataProvenance {
+  return { source, fetchedAt, isFallback: false }
+}
+
+export function fallbackProvenance(source: string): DataProvenance {
+  return { source, fetchedAt: Date.now(), isFallback: true }
+}
+
+export interface ProvenanceSummary {
+  // Oldest real fetch across the list, null if nothing real has loaded
+  fetchedAt: number | null
+  fallbackCount: number
+}
+
+// The header's view of the watchlist: it is only as fresh as its oldest coin
+export function summarizeProvenance(markets: CryptoData[]): ProvenanceSummary {
+  const real = markets.filter(market => !market.provenance.isFallback)
+  return {
+    fetchedAt: real.length > 0 ? Math.min(...real.map(market => market.provenance.fetchedAt)) : null,
+    fallbackCount: markets.length - real.length
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest'
+import { scheduledFetch } from '@/lib/scheduler'
+import { binanceProvider } from './binance'
+
+vi.mock('@/lib/scheduler', () => ({ scheduledFetch: vi.fn() }))
+
+const ticker = (symbol: string, quoteVolume: string) => ({ symbol, lastPrice: '1.0', quoteVolume })
+
+describe('binanceProvider.fetchCoinList', () => {
+  it('ranks USDT pairs by 24h quote volume and drops pairs without volume', async () => {
+    vi.mocked(scheduledFetch).mockResolvedValue({
+      data: [
+        ticker('ETHBTC', '900000000'),
+        ticker('LUNAUSDT', '0.00000000'),
+        ticker('DOGEUSDT', '250000000.5'),
+        ticker('BTCUSDT', '1500000000'),
+        ticker('ETHUSDC', '800000000'),
+        ticker('ETHUSDT', '700000000')
+      ],
+      fetchedAt: 0
+    })
+
+    const coins = await binanceProvider.fetchCoinList()
+    expect(vi.mocked(scheduledFetch).mock.calls[0][0]).toBe('https://api.binance.com/api/v3/ticker/24hr')
+    expect(coins.map(coin => coin.symbol)).toEqual(['btc', 'eth', 'doge'])
+    expect(coins[0]).toEqual({ id: 'btc', symbol: 'btc', name: 'BTC', image: '' })
+  })
+})
@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { getTradingPair, type CoinInfo } from '@/lib/coins'
+import { liveProvenance } from '@/lib/provenance'
+import { scheduledFetch, type RateLimit } from '@/lib/scheduler'
+import { itemLabel, numeric, parseEach, parseResponse } from '@/lib/validation'
+import type { Candle, CryptoData } from '@/types/crypto'
+import type { MarketDataProvider } from './types'
+
+const API_BASE = 'https://api.binance.com/api/v3'
+
+// Well under Binance's request weight limit, with room for one burst of
+// two requests per watched coin
+const RATE_LIMIT: RateLimit = { capacity: 40, refillPerSecond: 10 }
+const TICKER_TTL = 3_000
+// The 7d window moves slowly and costs more request weight
+const WEEKLY_TTL = 5 * 60_000
+const COIN_LIST_TTL = 10 * 60_000
+const CANDLES_TTL = 30_000
+
+function getJson(path: string, ttl: number, signal?: AbortSignal) {
+  return scheduledFetch(`${API_BASE}${path}`, { signal, ttl, staleWhileRevalidate: ttl * 4, rateLimit: RATE_LIMIT })
+}
+
+// Binance sends prices and volumes as decimal strings
+const binanceTickerSchema = z.object({
+  lastPrice: numeric,
+  priceChangePercent: numeric,
+  highPrice: numeric,
+  lowPrice: numeric,
+  quoteVolume: numeric
+})
+
+// The 7d window is a bonus; a missing or malformed one just leaves 7d empty
+const binanceWeeklySchema = z.object({ priceChangePercent: numeric }).nullable().catch(null)
+
+const binanceMarketSchema = z.object({
+  coin: z.custom<CoinInfo>(),
+  daily: binanceTickerSchema,
+  weekly: binanceWeeklySchema,
+  fetchedAt: z.number()
+}).transform(({ coin, daily, weekly, fetchedAt }): CryptoData => ({
+  ...coin,
+  current_price: daily.lastPrice,
+  price_change_percentage_24h: daily.priceChangePercent,
+  price_change_percentage_7d: weekly?.priceChangePercent ?? null,
+  total_volume: daily.quoteVolume,
+  high_24h: daily.highPrice,
+  low_24h: daily.lowPrice,
+  ath: null,
+  ath_change_percentage: null,
+  circulating_supply: null,
+  provenance: liveProvenance('Binance Spot', fetchedAt)
+}))
+
+// [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+const binanceKlineSchema = z.tuple([numeric, numeric, numeric, numeric, numeric, numeric, numeric, numeric])
+  .rest(z.unknown())
+  .transform((kline): Candle => ({
+    time: kline[0],
+    open: kline[1],
+    high: kline[2],
+    low: kline[3],
+    close: kline[4],
+    volume: kline[7]
+  }))
+
+const binanceListSchema = z.array(z.unknown())
+
+function fetchTicker(path: string, pair: string, ttl: number, signal?: AbortSignal) {
+  const separator = path.includes('?') ? '&' : '?'
+  return getJson(`${path}${separator}symbol=${pair}`, ttl, signal)
+}
+
+export const binanceProvider: MarketDataProvider = {
+  id: 'binance',
+  name: 'Binance Spot',
+  description: 'USDT spot pairs from Binance. No ATH or supply data.',
+
+  async fetchMarkets(coins, signal) {
+    // Binance rejects a whole batch if any symbol is unlisted, so each pair is
+    // requested on its own and unlisted coins simply drop out of the result.
+    // 24h stats and the rolling 7d window are separate endpoints.
+    const results = await Promise.allSettled(coins.map(async (coin) => {
+      const pair = getTradingPair(coin.symbol)
+      const [daily, weekly] = await Promise.all([
+        fetchTicker('/ticker/24hr', pair, TICKER_TTL, signal),
+        fetchTicker('/ticker?windowSize=7d', pair, WEEKLY_TTL, signal).catch(() => null)
+      ])
+      return { coin, daily: daily.data, weekly: weekly?.data ?? null, fetchedAt: daily.fetchedAt }
+    }))
+
+    const fetched = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])
+    const markets = parseEach('Binance tickers', binanceMarketSchema, fetched, (_, index) => fetched[index].coin.symbol.toUpperCase())
+    if (markets.length === 0 && coins.length > 0) {
+      const firstError = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+      throw firstError?.reason ?? new Error('No valid Binance markets available')
+    }
+
+    return markets
+  },
+
+  // Binance has no coin metadata or market caps, so the list carries tickers
+  // only (the lower-cased ticker is the id) and is ranked by 24h USDT volume.
+  // Pairs without volume are delisted or halted.
+  async fetchCoinList(signal) {
+    const tickers = parseEach(
+      'Binance coin list',
+      z.object({ symbol: z.string().min(1), quoteVolume: numeric }),
+      parseResponse('Binance coin list', binanceListSchema, (await getJson('/ticker/24hr', COIN_LIST_TTL, signal)).data),
+      itemLabel('symbol')
+    )
+    return tickers
+      .filter(ticker => ticker.symbol.endsWith('USDT') && ticker.quoteVolume > 0)
+      .sort((a, b) => b.quoteVolume - a.quoteVolume)
+      .map((ticker) => {
+        const base = ticker.symbol.slice(0, -'USDT'.length)
+        return { id: base.toLowerCase(), symbol: base.toLowerCase(), name: base, image: '' }
+      })
+  },
+
+  async fetchCandles(coin, interval, limit, signal) {
+    const { data } = await getJson(
+      `/klines?symbol=${getTradingPair(coin.symbol)}&interval=${interval}&limit=${limit}`,
+      CANDLES_TTL,
+      signal
+    )
+    const klines = parseResponse('Binance klines', binanceListSchema, data)
+    return parseEach(`Binance ${getTradingPair(coin.symbol)} klines`, binanceKlineSchema, klines, itemLabel())
+  }
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod'
+import type { CryptoData } from '@/types/crypto'
+import type { CoinInfo } from '@/lib/coins'
+import { liveProvenance } from '@/lib/provenance'
+import { scheduledFetch, type RateLimit } from '@/lib/scheduler'
+import { itemLabel, numeric, optionalNumeric, parseEach, parseResponse } from '@/lib/validation'
+import { binanceProvider } from './binance'
+import type { MarketDataProvider } from './types'
+
+const API_BASE = 'https://api.coingecko.com/api/v3'
+
+// The free tier allows about 30 calls a minute per IP, shared by every open
+// tab, so each tab stays well under that on its own
+const RATE_LIMIT: RateLimit = { capacity: 3, refillPerSecond: 0.25 }
+// CoinGecko itself only refreshes prices every 30-60s, so polling faster
+// just burns the quota
+const MARKETS_TTL = 20_000
+const COIN_LIST_TTL = 10 * 60_000
+// /coins/markets returns 100 rows unless asked for more, and never over 250
+const MAX_PER_PAGE = 250
+
+const coinGeckoCoinSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  name: z.string().min(1),
+  // Missing logos fall back to the initials badge
+  image: z.string().catch('')
+})
+
+// Price, 24h change, volume and range are what cards and signals are built
+// on, so a coin without them is dropped. The rest is optional in the UI too.
+const coinGeckoMarketSchema = coinGeckoCoinSchema.extend({
+  current_price: numeric,
+  price_change_percentage_24h: numeric,
+  price_change_percentage_7d_in_currency: optionalNumeric,
+  total_volume: numeric,
+  high_24h: numeric,
+  low_24h: numeric,
+  ath: optionalNumeric,
+  ath_change_percentage: optionalNumeric,
+  circulating_supply: optionalNumeric
+}).transform(({ price_change_percentage_7d_in_currency, ...market }): Omit<CryptoData, 'provenance'> => ({
+  ...market,
+  price_change_percentage_7d: price_change_percentage_7d_in_currency
+}))
+
+// A 200 with an error object instead of the list (as the free tier does
+// when throttled) fails the request rather than rendering nothing
+const coinGeckoListSchema = z.array(z.unknown())
+
+function getJson(path: string, ttl: number, signal?: AbortSignal) {
+  return scheduledFetch(`${API_BASE}${path}`, { signal, ttl, staleWhileRevalidate: ttl * 4, rateLimit: RATE_LIMIT })
+}
+
+async function fetchCoinList(signal?: AbortSignal) {
+  const { data } = await getJson(
+    `/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${MAX_PER_PAGE}&page=1&sparkline=false`,
+    COIN_LIST_TTL,
+    signal
+  )
+  const coins = parseResponse('CoinGecko coin list', coinGeckoListSchema, data)
+  return parseEach('CoinGecko coin list', coinGeckoCoinSchema, coins, itemLabel('id', 'symbol'))
+}
+
+// Coins added from another provider's list carry that provider's id (Binance
+// uses the ticker, e.g. "sei" for CoinGecko's "sei-network"). Known CoinGecko
+// ids are kept; anything else is matched by symbol against CoinGecko's list,
+// largest market cap first. Coins outside the list keep their id.
+async function resolveCoinGeckoIds(coins: CoinInfo[], signal?: AbortSignal): Promise<CoinInfo[]> {
+  let list: CoinInfo[]
+  try {
+    list = await fetchCoinList(signal)
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.warn('CoinGecko coin list unavailable, using ids as they are:', error)
+    return coins
+  }
+
+  const ids = new Set(list.map(coin => coin.id))
+  const bySymbol = new Map<string, string>()
+  for (const coin of list) {
+    const symbol = coin.symbol.toLowerCase()
+    if (!bySymbol.has(symbol)) bySymbol.set(symbol, coin.id)
+  }
+
+  return coins.map((coin) => {
+    if (ids.has(coin.id)) return coin
+    const id = bySymbol.get(coin.symbol.toLowerCase())
+    return id ? { ...coin, id } : coin
+  })
+}
+
+async function fetchMarketsPage(coins: CoinInfo[], signal?: AbortSignal): Promise<CryptoData[]> {
+  const ids = coins.map(coin => coin.id).join(',')
+  const { data, fetchedAt } = await getJson(
+    `/coins/markets?vs_currency=usd&ids=${ids}&order=market_cap_desc&per_page=${coins.length}&page=1&sparkline=false&price_change_percentage=24h,7d`,
+    MARKETS_TTL,
+    signal
+  )
+  const markets = parseResponse('CoinGecko markets', coinGeckoListSchema, data)
+
+  const provenance = liveProvenance('CoinGecko', fetchedAt)
+  return parseEach('CoinGecko markets', coinGeckoMarketSchema, markets, itemLabel('id', 'symbol'))
+    .map(market => ({ ...market, provenance }))
+}
+
+export const coinGeckoProvider: MarketDataProvider = {
+  id: 'coingecko',
+  name: 'CoinGecko',
+  description: 'Aggregated prices across exchanges. Free tier is heavily rate limited.',
+
+  async fetchMarkets(coins, signal) {
+    // An empty `ids` filter would return the whole top 100
+    if (coins.length === 0) return []
+
+    const resolved = await resolveCoinGeckoIds(coins, signal)
+
+    // Larger lists are split by id so every coin lands on a full page
+    const pages: CoinInfo[][] = []
+    for (let start = 0; start < resolved.length; start += MAX_PER_PAGE) {
+      pages.push(resolved.slice(start, start + MAX_PER_PAGE))
+    }
+    return (await Promise.all(pages.map(page => fetchMarketsPage(page, signal)))).flat()
+  },
+
+  fetchCoinList,
+
+  // CoinGecko's free OHLC endpoint picks its own granularity and has no
+  // volume, so candles come from Binance klines instead
+  fetchCandles: binanceProvider.fetchCandles
+}
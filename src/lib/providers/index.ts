@@ -0,0 +1,13 @@
+import { binanceProvider } from './binance'
+import { coinGeckoProvider } from './coingecko'
+import { mockProvider } from './mock'
+import type { MarketDataProvider, MarketDataProviderId } from './types'
+
+export type { MarketDataProvider, MarketDataProviderId } from './types'
+export { mockProvider }
+
+export const marketDataProviders: MarketDataProvider[] = [coinGeckoProvider, binanceProvider, mockProvider]
+
+export function getMarketDataProvider(id: MarketDataProviderId) {
+  return marketDataProviders.find(provider => provider.id === id) ?? coinGeckoProvider
+}
@@ -0,0 +1,215 @@
+import type { Candle, CandleInterval, CryptoData } from '@/types/crypto'
+import { fallbackProvenance } from '@/lib/provenance'
+import type { MarketDataProvider } from './types'
+
+// Realistic sample prices for offline development. Never substituted for a
+// failing provider: that role belongs to the saved snapshot (lib/snapshot).
+const MOCK_MARKETS: Omit<CryptoData, 'provenance'>[] = [
+  {
+    id: 'bitcoin',
+    name: 'Bitcoin',
+    symbol: 'btc',
+    current_price: 43250.67,
+    price_change_percentage_24h: 2.34,
+    price_change_percentage_7d: -1.23,
+    total_volume: 18500000000,
+    image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png',
+    high_24h: 44100.50,
+    low_24h: 42800.25,
+    ath: 69045.00,
+    ath_change_percentage: -37.4,
+    circulating_supply: 19750000
+  },
+  {
+    id: 'ethereum',
+    name: 'Ethereum',
+    symbol: 'eth',
+    current_price: 2567.89,
+    price_change_percentage_24h: -0.87,
+    price_change_percentage_7d: 3.45,
+    total_volume: 12300000000,
+    image: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png',
+    high_24h: 2620.45,
+    low_24h: 2540.12,
+    ath: 4878.26,
+    ath_change_percentage: -47.4,
+    circulating_supply: 120400000
+  },
+  {
+    id: 'binancecoin',
+    name: 'BNB',
+    symbol: 'bnb',
+    current_price: 315.42,
+    price_change_percentage_24h: 1.56,
+    price_change_percentage_7d: -2.1,
+    total_volume: 890000000,
+    image: 'https://assets.coingecko.com/coins/images/825/large/bnb-icon2_2x.png',
+    high_24h: 320.15,
+    low_24h: 310.80,
+    ath: 686.31,
+    ath_change_percentage: -54.0,
+    circulating_supply: 153856150
+  },
+  {
+    id: 'solana',
+    name: 'Solana',
+    symbol: 'sol',
+    current_price: 98.76,
+    price_change_percentage_24h: 4.23,
+    price_change_percentage_7d: 8.91,
+    total_volume: 2100000000,
+    image: 'https://assets.coingecko.com/coins/images/4128/large/solana.png',
+    high_24h: 102.45,
+    low_24h: 94.20,
+    ath: 259.96,
+    ath_change_percentage: -62.0,
+    circulating_supply: 467000000
+  },
+  {
+    id: 'cardano',
+    name: 'Cardano',
+    symbol: 'ada',
+    current_price: 0.4567,
+    price_change_percentage_24h: -1.23,
+    price_change_percentage_7d: 2.34,
+    total_volume: 450000000,
+    image: 'https://assets.coingecko.com/coins/images/975/large/cardano.png',
+    high_24h: 0.4720,
+    low_24h: 0.4450,
+    ath: 3.09,
+    ath_change_percentage: -85.2,
+    circulating_supply: 35000000000
+  },
+  {
+    id: 'sui',
+    name: 'Sui',
+    symbol: 'sui',
+    current_price: 3.45,
+    price_change_percentage_24h: 6.78,
+    price_change_percentage_7d: 12.34,
+    total_volume: 180000000,
+    image: 'https://assets.coingecko.com/coins/images/26375/large/sui_asset.jpeg',
+    high_24h: 3.67,
+    low_24h: 3.21,
+    ath: 4.96,
+    ath_change_percentage: -30.4,
+    circulating_supply: 2800000000
+  },
+  {
+    id: 'sei-network',
+    name: 'Sei',
+    symbol: 'sei',
+    current_price: 0.4234,
+    price_change_percentage_24h: -2.45,
+    price_change_percentage_7d: 5.67,
+    total_volume: 95000000,
+    image: 'https://assets.coingecko.com/coins/images/28205/large/sei.png',
+    high_24h: 0.4456,
+    low_24h: 0.4123,
+    ath: 1.14,
+    ath_change_percentage: -62.9,
+    circulating_supply: 3800000000
+  },
+  {
+    id: 'hype-token',
+    name: 'Hyperliquid',
+    symbol: 'hype',
+    current_price: 28.67,
+    price_change_percentage_24h: 8.91,
+    price_change_percentage_7d: -3.45,
+    total_volume: 320000000,
+    image: 'https://assets.coingecko.com/coins/images/34437/large/hype.png',
+    high_24h: 30.12,
+    low_24h: 26.45,
+    ath: 34.78,
+    ath_change_percentage: -17.6,
+    circulating_supply: 270000000
+  },
+  {
+    id: 'dogecoin',
+    name: 'Dogecoin',
+    symbol: 'doge',
+    current_price: 0.0789,
+    price_change_percentage_24h: 3.45,
+    price_change_percentage_7d: -1.23,
+    total_volume: 890000000,
+    image: 'https://assets.coingecko.com/coins/images/5/large/dogecoin.png',
+    high_24h: 0.0812,
+    low_24h: 0.0756,
+    ath: 0.7376,
+    ath_change_percentage: -89.3,
+    circulating_supply: 147000000000
+  },
+  {
+    id: 'bonk',
+    name: 'Bonk',
+    symbol: 'bonk',
+    current_price: 0.00003456,
+    price_change_percentage_24h: 12.34,
+    price_change_percentage_7d: 23.45,
+    total_volume: 67000000,
+    image: 'https://assets.coingecko.com/coins/images/28600/large/bonk.jpg',
+    high_24h: 0.00003678,
+    low_24h: 0.00003123,
+    ath: 0.00004704,
+    ath_change_percentage: -26.5,
+    circulating_supply: 75000000000000
+  }
+]
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1h': 3_600_000,
+  '4h': 14_400_000,
+  '1d': 86_400_000,
+  '1w': 604_800_000
+}
+
+// Deterministic random walk ending at the mock price, so charts are stable
+// between renders and reloads
+function generateCandles(market: Omit<CryptoData, 'provenance'>, interval: CandleInterval, limit: number): Candle[] {
+  const step = INTERVAL_MS[interval]
+  const volatility = 0.01 * Math.sqrt(step / INTERVAL_MS['1h'])
+  let seed = market.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)
+  const random = () => {
+    seed = (seed * 16807) % 2147483647
+    return seed / 2147483647
+  }
+
+  const now = Math.floor(Date.now() / step) * step
+  const candles: Candle[] = []
+  let close = market.current_price
+
+  for (let i = 0; i < limit; i++) {
+    const open = close * (1 + (random() - 0.5) * 2 * volatility)
+    const high = Math.max(open, close) * (1 + random() * volatility)
+    const low = Math.min(open, close) * (1 - random() * volatility)
+    const volume = (market.total_volume * step / INTERVAL_MS['1d']) * (0.5 + random())
+    candles.unshift({ time: now - i * step, open, high, low, close, volume })
+    close = open
+  }
+
+  return candles
+}
+
+export const mockProvider: MarketDataProvider = {
+  id: 'mock',
+  name: 'Demo data',
+  description: 'Static sample prices. Works offline, never changes.',
+
+  async fetchMarkets(coins) {
+    const symbols = coins.map(coin => coin.symbol)
+    const provenance = fallbackProvenance('Demo data')
+    return MOCK_MARKETS
+      .filter(market => symbols.includes(market.symbol))
+      .map(market => ({ ...market, provenance }))
+  },
+
+  async fetchCoinList() {
+    return MOCK_MARKETS.map(({ id, symbol, name, image }) => ({ id, symbol, name, image }))
+  },
+
+  async fetchCandles(coin, interval, limit) {
+    const market = MOCK_MARKETS.find(m => m.symbol === coin.symbol)
+    return market ? generateCandles(market, interval, limit) : []
+  }
+}
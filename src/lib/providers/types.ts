@@ -0,0 +1,17 @@
+import type { CoinInfo } from '@/lib/coins'
+import type { Candle, CandleInterval, CryptoData } from '@/types/crypto'
+
+export type MarketDataProviderId = 'coingecko' | 'binance' | 'mock'
+
+export interface MarketDataProvider {
+  id: MarketDataProviderId
+  name: string
+  description: string
+  // Returns normalized market data for the given coins. Coins the provider
+  // does not know about are left out of the result.
+  fetchMarkets: (coins: CoinInfo[], signal?: AbortSignal) => Promise<CryptoData[]>
+  // Coins that can be added to the watchlist, most relevant first
+  fetchCoinList: (signal?: AbortSignal) => Promise<CoinInfo[]>
+  // Most recent candles for a coin, oldest first
+  fetchCandles: (coin: CoinInfo, interval: CandleInterval, limit: number, signal?: AbortSignal) => Promise<Candle[]>
+}
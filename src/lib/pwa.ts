@@ -0,0 +1,10 @@
+// Registers the app shell service worker (public/sw.js). Production only: in
+// development it would keep serving modules Vite has already replaced.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error)
+    })
+  })
+}
@@ -0,0 +1,182 @@
+// Every provider request goes through here. Requests are rate limited per
+// API host with a token bucket, identical requests in flight share one fetch,
+// JSON responses are cached with a TTL plus a stale-while-revalidate window,
+// 429/418 responses block the host for as long as Retry-After says, and
+// nothing is sent while the tab is hidden.
+
+export interface RateLimit {
+  // Requests that can go out back to back
+  capacity: number
+  // Sustained rate once the burst is used up
+  refillPerSecond: number
+}
+
+export interface ScheduledFetchOptions {
+  signal?: AbortSignal
+  // How long a response is served from cache without asking again
+  ttl?: number
+  // After the TTL, how long the cached response is still returned while a
+  // refresh runs in the background
+  staleWhileRevalidate?: number
+  // Applied the first time this host is seen
+  rateLimit?: RateLimit
+}
+
+export interface ScheduledResponse {
+  data: unknown
+  // Epoch milliseconds the response arrived. Older than "now" whenever it
+  // was served from cache, which is what freshness indicators should show.
+  fetchedAt: number
+}
+
+export class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`)
+    this.name = 'HttpError'
+    this.status = status
+  }
+}
+
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 5 }
+// Used when a 429 comes without a usable Retry-After
+const DEFAULT_RETRY_AFTER_MS = 30_000
+
+interface Bucket {
+  limit: RateLimit
+  tokens: number
+  updatedAt: number
+  // Set by a 429/418; nothing goes out to this host before then
+  blockedUntil: number
+}
+
+const buckets = new Map<string, Bucket>()
+const cache = new Map<string, ScheduledResponse>()
+const inFlight = new Map<string, Promise<ScheduledResponse>>()
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function isHidden() {
+  return typeof document !== 'undefined' && document.hidden
+}
+
+function waitUntilVisible() {
+  if (!isHidden()) return Promise.resolve()
+  return new Promise<void>((resolve) => {
+    const onChange = () => {
+      if (isHidden()) return
+      document.removeEventListener('visibilitychange', onChange)
+      resolve()
+    }
+    document.addEventListener('visibilitychange', onChange)
+  })
+}
+
+function getBucket(host: string, limit: RateLimit = DEFAULT_RATE_LIMIT) {
+  let bucket = buckets.get(host)
+  if (!bucket) {
+    bucket = { limit, tokens: limit.capacity, updatedAt: Date.now(), blockedUntil: 0 }
+    buckets.set(host, bucket)
+  }
+  return bucket
+}
+
+function refill(bucket: Bucket, now: number) {
+  const elapsed = (now - bucket.updatedAt) / 1000
+  bucket.tokens = Math.min(bucket.limit.capacity, bucket.tokens + elapsed * bucket.limit.refillPerSecond)
+  bucket.updatedAt = now
+}
+
+// Resolves once the tab is visible, the host is not blocked and a token is
+// available, and takes the token
+async function acquire(bucket: Bucket) {
+  for (;;) {
+    await waitUntilVisible()
+    const now = Date.now()
+    if (now < bucket.blockedUntil) {
+      await sleep(bucket.blockedUntil - now)
+      continue
+    }
+    refill(bucket, now)
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return
+    }
+    await sleep(((1 - bucket.tokens) / bucket.limit.refillPerSecond) * 1000)
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = Date.now()) {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+async function request(url: string, bucket: Bucket): Promise<ScheduledResponse> {
+  await acquire(bucket)
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' } })
+
+  // Binance answers 418 once an IP keeps going after 429s
+  if (response.status === 429 || response.status === 418) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After')) ?? DEFAULT_RETRY_AFTER_MS
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfter)
+    console.warn(`${new URL(url).host} rate limited, pausing for ${Math.round(retryAfter / 1000)}s`)
+  }
+  if (!response.ok) {
+    throw new HttpError(response.status, response.statusText)
+  }
+
+  const entry = { data: await response.json(), fetchedAt: Date.now() }
+  cache.set(url, entry)
+  return entry
+}
+
+// One network request per URL at a time; later callers share it
+function dedupedRequest(url: string, bucket: Bucket) {
+  let pending = inFlight.get(url)
+  if (!pending) {
+    pending = request(url, bucket).finally(() => inFlight.delete(url))
+    inFlight.set(url, pending)
+  }
+  return pending
+}
+
+// The shared request keeps going when one caller aborts, so the others (and
+// the cache) still get the response
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(signal.reason)
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+export async function scheduledFetch(url: string, options: ScheduledFetchOptions = {}): Promise<ScheduledResponse> {
+  const { signal, ttl = 0, staleWhileRevalidate = 0, rateLimit } = options
+  const bucket = getBucket(new URL(url).host, rateLimit)
+  const cached = cache.get(url)
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity
+
+  if (cached && age < ttl) return cached
+
+  if (cached && age < ttl + staleWhileRevalidate) {
+    dedupedRequest(url, bucket).catch(error => console.warn(`Background refresh of ${url} failed:`, error))
+    return cached
+  }
+
+  try {
+    return await withAbort(dedupedRequest(url, bucket), signal)
+  } catch (error) {
+    // Rate limited with something cached: an old answer beats no answer
+    if (cached && error instanceof HttpError && (error.status === 429 || error.status === 418)) {
+      return cached
+    }
+    throw error
+  }
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod'
+import { evaluateCondition, type SignalInputs } from '@/lib/signals/engine'
+import { SIGNAL_OPERATORS, type SignalField } from '@/lib/signals/rules'
+
+// CPR fields need daily candles per coin, which is too many requests for a
+// universe of hundreds of coins, so the screener sticks to market data
+export const SCREENER_FIELDS = [
+  'fundingRate',
+  'priceChange24h',
+  'priceChange7d',
+  'volume24h',
+  'athDistance',
+  'rangePosition'
+] as const satisfies readonly SignalField[]
+
+export type ScreenerField = typeof SCREENER_FIELDS[number]
+
+const combinatorSchema = z.enum(['and', 'or'])
+
+export const screenConditionSchema = z.object({
+  field: z.enum(SCREENER_FIELDS),
+  operator: z.enum(SIGNAL_OPERATORS),
+  value: z.number({ error: 'Enter a number' })
+})
+
+export const screenGroupSchema = z.object({
+  combinator: combinatorSchema,
+  conditions: z.array(screenConditionSchema).min(1, 'Add at least one condition')
+})
+
+// Conditions combine within a group, groups combine with each other, e.g.
+// (funding < 0 AND 24h > 3) OR (7d > 20)
+export const screenFilterSchema = z.object({
+  combinator: combinatorSchema,
+  groups: z.array(screenGroupSchema).min(1, 'Add at least one group')
+})
+
+export const savedScreenSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  filter: screenFilterSchema
+})
+
+export type ScreenCondition = z.infer<typeof screenConditionSchema>
+export type ScreenGroup = z.infer<typeof screenGroupSchema>
+export type ScreenFilter = z.infer<typeof screenFilterSchema>
+export type SavedScreen = z.infer<typeof savedScreenSchema>
+
+export const NEW_SCREEN_CONDITION: ScreenCondition = { field: 'priceChange24h', operator: '>', value: 0 }
+
+// Shorts paying longs on a coin that is running, with real volume and not
+// far off its highs
+export const DEFAULT_SCREEN_FILTER: ScreenFilter = {
+  combinator: 'and',
+  groups: [
+    {
+      combinator: 'and',
+      conditions: [
+        { field: 'fundingRate', operator: '<', value: -0.01 },
+        { field: 'priceChange24h', operator: '>', value: 3 },
+        { field: 'volume24h', operator: '>', value: 100_000_000 },
+        { field: 'athDistance', operator: '>', value: -50 }
+      ]
+    }
+  ]
+}
+
+function combine(combinator: 'and' | 'or', results: boolean[]) {
+  return combinator === 'and' ? results.every(Boolean) : results.some(Boolean)
+}
+
+export function matchesScreen(filter: ScreenFilter, inputs: SignalInputs) {
+  return combine(filter.combinator, filter.groups.map(group =>
+    combine(group.combinator, group.conditions.map(condition => evaluateCondition(condition, inputs).passed))
+  ))
+}
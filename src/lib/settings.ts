@@ -0,0 +1,23 @@
+import type { FundingExchangeId } from '@/lib/funding'
+import type { MarketDataProviderId } from '@/lib/providers'
+
+export interface Settings {
+  marketDataProvider: MarketDataProviderId
+  fundingExchange: FundingExchangeId
+  // Stream tickers over WebSocket, or only poll REST
+  liveUpdates: 'stream' | 'polling'
+  // Alert delivery besides the in-app toast
+  alertNotifications: boolean
+  alertSound: boolean
+  // Black/white surfaces and full-strength borders, on top of light or dark
+  highContrast: boolean
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  marketDataProvider: 'coingecko',
+  fundingExchange: 'binance',
+  liveUpdates: 'stream',
+  alertNotifications: false,
+  alertSound: false,
+  highContrast: false
+}
@@ -0,0 +1,105 @@
+import { getCprPosition, type CprSet } from '@/lib/indicators/cpr'
+import type { CryptoData, FundingRate } from '@/types/crypto'
+import type { SignalAction, SignalCondition, SignalField, SignalRule, SignalRuleSet } from './rules'
+
+export type SignalInputs = Record<SignalField, number | null>
+
+export interface ConditionResult extends SignalCondition {
+  // Actual input value; null when the data was unavailable
+  actual: number | null
+  passed: boolean
+}
+
+export interface SignalReason {
+  ruleId: string
+  ruleName: string
+  action: SignalAction
+  weight: number
+  combinator: SignalRule['combinator']
+  matched: boolean
+  conditions: ConditionResult[]
+}
+
+export interface Signal {
+  symbol: string
+  action: SignalAction | null
+  // Sum of matched BUY weights minus matched SELL weights
+  score: number
+  threshold: number
+  // Every enabled rule that applies to the coin, matched or not
+  reasons: SignalReason[]
+  inputs: SignalInputs
+}
+
+const CPR_POSITION_VALUES = { above: 1, inside: 0, below: -1 } as const
+
+export function buildSignalInputs(crypto: CryptoData, funding?: FundingRate, cpr?: CprSet): SignalInputs {
+  const range = crypto.high_24h - crypto.low_24h
+  const dailyCpr = cpr?.daily
+
+  return {
+    fundingRate: funding ? funding.rate * 100 : null,
+    priceChange24h: crypto.price_change_percentage_24h,
+    priceChange7d: crypto.price_change_percentage_7d,
+    volume24h: crypto.total_volume,
+    athDistance: crypto.ath_change_percentage,
+    rangePosition: range > 0 ? ((crypto.current_price - crypto.low_24h) / range) * 100 : null,
+    cprPosition: dailyCpr ? CPR_POSITION_VALUES[getCprPosition(crypto.current_price, dailyCpr)] : null,
+    cprWidth: dailyCpr ? dailyCpr.widthPercent : null
+  }
+}
+
+function compare(actual: number, operator: SignalCondition['operator'], value: number) {
+  switch (operator) {
+    case '>': return actual > value
+    case '>=': return actual >= value
+    case '<': return actual < value
+    case '<=': return actual <= value
+    case '==': return actual === value
+  }
+}
+
+export function evaluateCondition(condition: SignalCondition, inputs: SignalInputs): ConditionResult {
+  const actual = inputs[condition.field]
+  return {
+    ...condition,
+    actual,
+    // Missing data never satisfies a condition
+    passed: actual !== null && compare(actual, condition.operator, condition.value)
+  }
+}
+
+export function evaluateSignal(symbol: string, inputs: SignalInputs, ruleSet: SignalRuleSet): Signal {
+  const reasons: SignalReason[] = []
+  let score = 0
+
+  for (const rule of ruleSet.rules) {
+    const override = rule.overrides.find(o => o.symbol === symbol.toUpperCase())
+    const enabled = override ? override.enabled : rule.enabled
+    if (!enabled) continue
+
+    const weight = override ? override.weight : rule.weight
+    const conditions = rule.conditions.map(condition => evaluateCondition(condition, inputs))
+    const matched = rule.combinator === 'and'
+      ? conditions.every(c => c.passed)
+      : conditions.some(c => c.passed)
+
+    if (matched) score += rule.action === 'BUY' ? weight : -weight
+
+    reasons.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      action: rule.action,
+      weight,
+      combinator: rule.combinator,
+      matched,
+      conditions
+    })
+  }
+
+  let action: SignalAction | null = null
+  if (score >= ruleSet.threshold) action = 'BUY'
+  else if (score <= -ruleSet.threshold) action = 'SELL'
+
+  return { symbol: symbol.toUpperCase(), action, score, threshold: ruleSet.threshold, reasons, inputs }
+}
@@ -0,0 +1,81 @@
+import type { Signal } from './engine'
+import { SIGNAL_FIELDS, type SignalAction, type SignalField } from './rules'
+
+export interface ConditionExplanation {
+  field: SignalField
+  label: string
+  actual: number | null
+  operator: string
+  threshold: number
+  passed: boolean
+}
+
+export interface RuleExplanation {
+  ruleId: string
+  ruleName: string
+  action: SignalAction
+  weight: number
+  combinator: 'and' | 'or'
+  matched: boolean
+  // Signed effect on the score: +weight for a matched BUY, -weight for SELL
+  contribution: number
+  conditions: ConditionExplanation[]
+}
+
+// Self-contained, JSON-serializable record of why a signal fired. The
+// explanation panel renders exactly this, so an exported copy matches what
+// was on screen.
+export interface SignalExplanation {
+  symbol: string
+  action: SignalAction | null
+  score: number
+  threshold: number
+  price: number
+  evaluatedAt: string
+  rules: RuleExplanation[]
+}
+
+export function explainSignal(signal: Signal, price: number, evaluatedAt = new Date()): SignalExplanation {
+  return {
+    symbol: signal.symbol,
+    action: signal.action,
+    score: signal.score,
+    threshold: signal.threshold,
+    price,
+    evaluatedAt: evaluatedAt.toISOString(),
+    rules: signal.reasons.map(reason => ({
+      ruleId: reason.ruleId,
+      ruleName: reason.ruleName,
+      action: reason.action,
+      weight: reason.weight,
+      combinator: reason.combinator,
+      matched: reason.matched,
+      contribution: reason.matched ? (reason.action === 'BUY' ? reason.weight : -reason.weight) : 0,
+      conditions: reason.conditions.map(condition => ({
+        field: condition.field,
+        label: SIGNAL_FIELDS[condition.field].label,
+        actual: condition.actual,
+        operator: condition.operator,
+        threshold: condition.value,
+        passed: condition.passed
+      }))
+    }))
+  }
+}
+
+export function formatSignalValue(field: SignalField, value: number | null) {
+  if (value === null) return 'n/a'
+  if (field === 'cprPosition') return value > 0 ? 'above' : value < 0 ? 'below' : 'inside'
+  if (field === 'volume24h') return `$${Math.round(value).toLocaleString()}`
+  return `${Number(value.toFixed(4))}${SIGNAL_FIELDS[field].unit}`
+}
+
+export function downloadSignalExplanation(explanation: SignalExplanation) {
+  const blob = new Blob([JSON.stringify(explanation, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `signal-${explanation.symbol}-${explanation.evaluatedAt.replace(/[:.]/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
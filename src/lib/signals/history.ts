@@ -0,0 +1,195 @@
+import { clear, getAll, put, STORES } from '@/lib/db'
+import type { CoinInfo } from '@/lib/coins'
+import type { MarketDataProvider } from '@/lib/providers'
+import type { SignalAction } from './rules'
+import type { RuleExplanation, SignalExplanation } from './explain'
+
+export const OUTCOME_HORIZONS = {
+  '1h': 3_600_000,
+  '4h': 14_400_000,
+  '24h': 86_400_000
+} as const
+
+export type OutcomeHorizon = keyof typeof OUTCOME_HORIZONS
+
+export interface SignalOutcome {
+  price: number
+  // Percent move from the signal price
+  returnPercent: number
+}
+
+export interface SignalRecord {
+  id?: number
+  symbol: string
+  coin: CoinInfo
+  action: SignalAction | null
+  previousAction: SignalAction | null
+  timestamp: number
+  price: number
+  fundingRate: number | null
+  score: number
+  // Rules that matched at the time, with their inputs
+  reasons: RuleExplanation[]
+  // null = the horizon passed but no price could be found for it
+  outcomes: Partial<Record<OutcomeHorizon, SignalOutcome | null>>
+}
+
+// How late a live price may be and still count as the horizon price
+const LIVE_PRICE_TOLERANCE = 15 * 60 * 1000
+// Binance-style kline endpoints return at most 1000 candles
+const MAX_BACKFILL_CANDLES = 1000
+
+export function listSignalRecords() {
+  return getAll<SignalRecord>(STORES.signals)
+}
+
+export function clearSignalRecords() {
+  return clear(STORES.signals)
+}
+
+export async function recordSignalChange(
+  coin: CoinInfo,
+  explanation: SignalExplanation,
+  previousAction: SignalAction | null,
+  fundingRate: number | null
+) {
+  const record: SignalRecord = {
+    symbol: explanation.symbol,
+    coin,
+    action: explanation.action,
+    previousAction,
+    timestamp: Date.parse(explanation.evaluatedAt),
+    price: explanation.price,
+    fundingRate,
+    score: explanation.score,
+    reasons: explanation.rules.filter(rule => rule.matched),
+    outcomes: {}
+  }
+  await put(STORES.signals, record)
+  return record
+}
+
+async function findHistoricalPrice(provider: MarketDataProvider, coin: CoinInfo, time: number, now: number) {
+  const hoursAgo = Math.ceil((now - time) / OUTCOME_HORIZONS['1h']) + 2
+  if (hoursAgo > MAX_BACKFILL_CANDLES) return null
+
+  const candles = await provider.fetchCandles(coin, '1h', hoursAgo)
+  const candle = candles.find(c => time >= c.time && time < c.time + OUTCOME_HORIZONS['1h'])
+  return candle ? candle.open : null
+}
+
+// Fills in forward returns whose horizon has passed. Recent horizons use the
+// live price when `livePrices` has a fresh one for the coin; everything else,
+// including ones missed while the app was closed, is backfilled from hourly
+// candles. Only real market data counts: nothing is resolved while
+// the demo provider is selected.
+export async function resolveSignalOutcomes(
+  provider: MarketDataProvider,
+  livePrices: Record<string, number>,
+  now = Date.now()
+) {
+  // Demo candles are a random walk. An outcome filled in from them would be
+  // stored for good and skew every hit rate, so those wait for real data.
+  if (provider.id === 'mock') return 0
+
+  const records = await listSignalRecords()
+  let updated = 0
+
+  for (const record of records) {
+    if (!record.action) continue
+
+    let changed = false
+    for (const [horizon, offset] of Object.entries(OUTCOME_HORIZONS) as [OutcomeHorizon, number][]) {
+      if (record.outcomes[horizon] !== undefined) continue
+      const target = record.timestamp + offset
+      if (now < target) continue
+
+      let price: number | null = null
+      try {
+        price = now - target <= LIVE_PRICE_TOLERANCE && livePrices[record.symbol] !== undefined
+          ? livePrices[record.symbol]
+          : await findHistoricalPrice(provider, record.coin, target, now)
+      } catch (error) {
+        console.warn(`Could not resolve ${horizon} outcome for ${record.symbol}:`, error)
+        continue // try again on the next pass
+      }
+
+      record.outcomes[horizon] = price === null
+        ? null
+        : { price, returnPercent: ((price - record.price) / record.price) * 100 }
+      changed = true
+    }
+
+    if (changed) {
+      await put(STORES.signals, record)
+      updated += 1
+    }
+  }
+
+  return updated
+}
+
+// A call is a hit when price moved the way it said: up after BUY, down after SELL
+export function isHit(record: SignalRecord, horizon: OutcomeHorizon) {
+  const outcome = record.outcomes[horizon]
+  if (!outcome || !record.action) return null
+  return record.action === 'BUY' ? outcome.returnPercent > 0 : outcome.returnPercent < 0
+}
+
+export interface HitRateRow {
+  key: string
+  label: string
+  signals: number
+  hitRates: Record<OutcomeHorizon, { hits: number; total: number }>
+  // Average return in the signal's direction (positive = profitable)
+  avgReturns: Record<OutcomeHorizon, number | null>
+}
+
+function emptyRow(key: string, label: string): HitRateRow {
+  return {
+    key,
+    label,
+    signals: 0,
+    hitRates: { '1h': { hits: 0, total: 0 }, '4h': { hits: 0, total: 0 }, '24h': { hits: 0, total: 0 } },
+    avgReturns: { '1h': null, '4h': null, '24h': null }
+  }
+}
+
+export function computeHitRates(records: SignalRecord[], groupBy: 'coin' | 'rule'): HitRateRow[] {
+  const rows = new Map<string, HitRateRow>()
+  const sums = new Map<string, Record<OutcomeHorizon, number>>()
+
+  for (const record of records) {
+    if (!record.action) continue
+
+    // Credit each matched rule that voted for the action that fired
+    const groups = groupBy === 'coin'
+      ? [{ key: record.symbol, label: record.symbol }]
+      : record.reasons
+        .filter(reason => reason.action === record.action)
+        .map(reason => ({ key: reason.ruleId, label: reason.ruleName }))
+
+    for (const { key, label } of groups) {
+      if (!rows.has(key)) {
+        rows.set(key, emptyRow(key, label))
+        sums.set(key, { '1h': 0, '4h': 0, '24h': 0 })
+      }
+      const row = rows.get(key)!
+      const sum = sums.get(key)!
+      row.signals += 1
+
+      for (const horizon of Object.keys(OUTCOME_HORIZONS) as OutcomeHorizon[]) {
+        const outcome = record.outcomes[horizon]
+        const hit = isHit(record, horizon)
+        if (!outcome || hit === null) continue
+
+        row.hitRates[horizon].total += 1
+        if (hit) row.hitRates[horizon].hits += 1
+        sum[horizon] += record.action === 'BUY' ? outcome.returnPercent : -outcome.returnPercent
+        row.avgReturns[horizon] = sum[horizon] / row.hitRates[horizon].total
+      }
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => b.signals - a.signals)
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod'
+
+// Inputs a rule can test, all as plain numbers so every rule is a simple
+// comparison. Percent-like fields are in percent (0.5 = 0.5%).
+export const SIGNAL_FIELDS = {
+  fundingRate: { label: 'Funding rate', unit: '%' },
+  priceChange24h: { label: '24h change', unit: '%' },
+  priceChange7d: { label: '7d change', unit: '%' },
+  volume24h: { label: '24h volume', unit: '$' },
+  athDistance: { label: 'ATH distance', unit: '%' },
+  // Where price sits in the 24h low–high range, 0 = low, 100 = high
+  rangePosition: { label: '24h range position', unit: '%' },
+  // 1 = above, 0 = inside, -1 = below the daily CPR
+  cprPosition: { label: 'Daily CPR position', unit: '' },
+  cprWidth: { label: 'Daily CPR width', unit: '%' }
+} as const
+
+export type SignalField = keyof typeof SIGNAL_FIELDS
+
+export const SIGNAL_OPERATORS = ['>', '>=', '<', '<=', '=='] as const
+
+export type SignalAction = 'BUY' | 'SELL'
+
+export const signalConditionSchema = z.object({
+  field: z.enum(Object.keys(SIGNAL_FIELDS) as [SignalField, ...SignalField[]]),
+  operator: z.enum(SIGNAL_OPERATORS),
+  value: z.number({ error: 'Enter a number' })
+})
+
+export const coinOverrideSchema = z.object({
+  symbol: z.string().trim().min(1, 'Enter a symbol').transform(symbol => symbol.toUpperCase()),
+  enabled: z.boolean(),
+  weight: z.number({ error: 'Enter a number' }).min(0, 'Weight cannot be negative')
+})
+
+export const signalRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Give the rule a name'),
+  enabled: z.boolean(),
+  action: z.enum(['BUY', 'SELL']),
+  weight: z.number({ error: 'Enter a number' }).min(0, 'Weight cannot be negative'),
+  combinator: z.enum(['and', 'or']),
+  conditions: z.array(signalConditionSchema).min(1, 'Add at least one condition'),
+  overrides: z.array(coinOverrideSchema)
+})
+
+export const signalRuleSetSchema = z.object({
+  // Minimum absolute score before a BUY or SELL is shown
+  threshold: z.number({ error: 'Enter a number' }).positive('Threshold must be above zero'),
+  rules: z.array(signalRuleSchema)
+})
+
+export type SignalCondition = z.infer<typeof signalConditionSchema>
+export type CoinOverride = z.infer<typeof coinOverrideSchema>
+export type SignalRule = z.infer<typeof signalRuleSchema>
+export type SignalRuleSet = z.infer<typeof signalRuleSetSchema>
+
+// Funding extremes dominate (weight 2); 24h momentum alone (weight 1) is
+// enough when there is no funding data, matching the original dashboard.
+export const DEFAULT_SIGNAL_RULES: SignalRuleSet = {
+  threshold: 1,
+  rules: [
+    {
+      id: 'high-funding',
+      name: 'Crowded longs (high funding)',
+      enabled: true,
+      action: 'SELL',
+      weight: 2,
+      combinator: 'and',
+      conditions: [{ field: 'fundingRate', operator: '>=', value: 0.5 }],
+      overrides: []
+    },
+    {
+      id: 'negative-funding',
+      name: 'Crowded shorts (negative funding)',
+      enabled: true,
+      action: 'BUY',
+      weight: 2,
+      combinator: 'and',
+      conditions: [{ field: 'fundingRate', operator: '<=', value: -0.5 }],
+      overrides: []
+    },
+    {
+      id: 'momentum-up',
+      name: '24h momentum up',
+      enabled: true,
+      action: 'BUY',
+      weight: 1,
+      combinator: 'and',
+      conditions: [{ field: 'priceChange24h', operator: '>=', value: 2 }],
+      overrides: []
+    },
+    {
+      id: 'momentum-down',
+      name: '24h momentum down',
+      enabled: true,
+      action: 'SELL',
+      weight: 1,
+      combinator: 'and',
+      conditions: [{ field: 'priceChange24h', operator: '<=', value: -2 }],
+      overrides: []
+    }
+  ]
+}
@@ -0,0 +1,41 @@
+import type { CoinInfo } from '@/lib/coins'
+import { get, put, STORES } from '@/lib/db'
+import { marketKey, restoreMarkets } from '@/lib/market-store'
+import type { SignalExplanation } from '@/lib/signals/explain'
+import type { CryptoData, FundingRateData } from '@/types/crypto'
+
+// The last real market data, kept in IndexedDB so an offline start shows
+// what was actually on screen, with its true fetch times, instead of sample
+// prices. Only the latest snapshot is kept.
+
+const SNAPSHOT_ID = 'latest'
+
+export interface MarketSnapshotRecord {
+  id: typeof SNAPSHOT_ID
+  savedAt: number
+  // Each coin carries its own provenance, so fetch times survive the trip
+  coins: CryptoData[]
+  fundingRates: FundingRateData
+  signals: SignalExplanation[]
+}
+
+export function saveMarketSnapshot(snapshot: Omit<MarketSnapshotRecord, 'id' | 'savedAt'>) {
+  const record: MarketSnapshotRecord = { ...snapshot, id: SNAPSHOT_ID, savedAt: Date.now() }
+  return put(STORES.snapshots, record)
+}
+
+export function loadMarketSnapshot() {
+  return get<MarketSnapshotRecord>(STORES.snapshots, SNAPSHOT_ID)
+}
+
+// Loads the watchlist's coins from the snapshot into the market store if it
+// is still empty. Resolves to whether anything was restored.
+export async function restoreMarketSnapshot(watchlist: CoinInfo[]) {
+  const snapshot = await loadMarketSnapshot()
+  if (!snapshot) return false
+
+  const watched = new Set(watchlist.map(coin => marketKey(coin.symbol)))
+  const coins = snapshot.coins.filter(coin => watched.has(marketKey(coin.symbol)))
+  if (coins.length === 0) return false
+  return restoreMarkets(coins, snapshot.fundingRates, snapshot.signals)
+}
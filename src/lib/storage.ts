@@ -0,0 +1,61 @@
+// Thin localStorage wrapper shared by every persisted piece of UI state.
+// Values are JSON encoded under a common prefix and every hook reading the
+// same key is notified when one of them writes.
+
+const PREFIX = 'long-or-short:'
+
+const cache = new Map<string, unknown>()
+const listeners = new Map<string, Set<() => void>>()
+
+export function readStorage<T>(key: string, fallback: T): T {
+  if (cache.has(key)) return cache.get(key) as T
+
+  let value = fallback
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key)
+    if (raw !== null) value = JSON.parse(raw) as T
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from storage:`, error)
+  }
+
+  cache.set(key, value)
+  return value
+}
+
+export function writeStorage<T>(key: string, value: T) {
+  cache.set(key, value)
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value))
+  } catch (error) {
+    console.warn(`Failed to write "${key}" to storage:`, error)
+  }
+  listeners.get(key)?.forEach(listener => listener())
+}
+
+export function removeStorage(key: string) {
+  cache.delete(key)
+  try {
+    window.localStorage.removeItem(PREFIX + key)
+  } catch (error) {
+    console.warn(`Failed to remove "${key}" from storage:`, error)
+  }
+  listeners.get(key)?.forEach(listener => listener())
+}
+
+export function subscribeStorage(key: string, listener: () => void) {
+  if (!listeners.has(key)) listeners.set(key, new Set())
+  listeners.get(key)!.add(listener)
+
+  // Pick up writes made from other tabs
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== PREFIX + key) return
+    cache.delete(key)
+    listener()
+  }
+  window.addEventListener('storage', onStorage)
+
+  return () => {
+    listeners.get(key)?.delete(listener)
+    window.removeEventListener('storage', onStorage)
+  }
+}
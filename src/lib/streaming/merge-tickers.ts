@@ -0,0 +1,28 @@
+import type { CryptoData } from '@/types/crypto'
+import type { MiniTicker } from './ticker-stream'
+
+// Applies streamed USDT-pair ticks on top of REST market data. Fields the
+// stream does not carry (7d change, ATH, supply) keep their REST values.
+export function mergeMiniTickers(markets: CryptoData[], tickers: MiniTicker[]): CryptoData[] {
+  const bySymbol = new Map(tickers.map(ticker => [ticker.symbol, ticker]))
+  let changed = false
+
+  const merged = markets.map((market) => {
+    const ticker = bySymbol.get(`${market.symbol.toUpperCase()}USDT`)
+    if (!ticker) return market
+
+    changed = true
+    return {
+      ...market,
+      current_price: ticker.close,
+      price_change_percentage_24h: ticker.open ? ((ticker.close - ticker.open) / ticker.open) * 100 : market.price_change_percentage_24h,
+      high_24h: ticker.high,
+      low_24h: ticker.low,
+      total_volume: ticker.quoteVolume,
+      // Stream prices are real, but the rest of a demo coin still is not
+      provenance: { source: 'Binance stream', fetchedAt: ticker.eventTime, isFallback: market.provenance.isFallback }
+    }
+  })
+
+  return changed ? merged : markets
+}
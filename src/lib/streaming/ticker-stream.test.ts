@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { WebSocket as NodeWebSocket, WebSocketServer, type WebSocket as ServerSocket } from 'ws'
+import { createTickerStream, type MiniTicker, type StreamStatus, type TickerStream } from './ticker-stream'
+
+// A local stand-in for the Binance stream: records subscriptions and lets each
+// test push frames to, or drop, whichever client is connected
+function startStandIn() {
+  const server = new WebSocketServer({ port: 0 })
+  const subscriptions: unknown[] = []
+  const clients: ServerSocket[] = []
+
+  server.on('connection', (client) => {
+    clients.push(client)
+    client.on('message', data => subscriptions.push(JSON.parse(String(data))))
+  })
+
+  const { port } = server.address() as { port: number }
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    subscriptions,
+    clients,
+    send: (message: unknown) => clients[clients.length - 1]?.send(JSON.stringify(message)),
+    close: () => new Promise<void>((resolve) => {
+      clients.forEach(client => client.terminate())
+      server.close(() => resolve())
+    })
+  }
+}
+
+const miniTicker = (symbol: string, close: string) => ({
+  e: '24hrMiniTicker',
+  E: 1735718400000,
+  s: symbol,
+  c: close,
+  o: '100',
+  h: '110',
+  l: '90',
+  q: '123456'
+})
+
+describe('createTickerStream', () => {
+  let standIn: ReturnType<typeof startStandIn>
+  let stream: TickerStream | undefined
+  let statuses: StreamStatus[]
+  let received: MiniTicker[]
+
+  const connect = (options: { heartbeatTimeout?: number } = {}) => {
+    stream = createTickerStream({
+      streams: ['btcusdt@miniTicker', 'ethusdt@miniTicker'],
+      onTickers: tickers => received.push(...tickers),
+      onStatusChange: status => statuses.push(status),
+      url: standIn.url,
+      maxReconnectDelay: 20,
+      WebSocketImpl: NodeWebSocket as unknown as typeof WebSocket,
+      ...options
+    })
+    stream.start()
+  }
+
+  beforeEach(() => {
+    standIn = startStandIn()
+    statuses = []
+    received = []
+  })
+
+  afterEach(async () => {
+    stream?.stop()
+    stream = undefined
+    vi.restoreAllMocks()
+    await standIn.close()
+  })
+
+  it('subscribes on open and goes live with the first tickers', async () => {
+    connect()
+    await vi.waitFor(() => expect(standIn.subscriptions).toHaveLength(1))
+    expect(standIn.subscriptions[0]).toEqual({
+      method: 'SUBSCRIBE',
+      params: ['btcusdt@miniTicker', 'ethusdt@miniTicker'],
+      id: 1
+    })
+
+    // The subscription ack carries no tickers and must not count as live
+    standIn.send({ result: null, id: 1 })
+    standIn.send([miniTicker('BTCUSDT', '105.5'), miniTicker('ETHUSDT', '3.25')])
+
+    await vi.waitFor(() => expect(received).toHaveLength(2))
+    expect(received[0]).toEqual({
+      symbol: 'BTCUSDT',
+      eventTime: 1735718400000,
+      open: 100,
+      close: 105.5,
+      high: 110,
+      low: 90,
+      quoteVolume: 123456
+    })
+    expect(statuses).toEqual(['connecting', 'live'])
+  })
+
+  it('reconnects and replays the subscription after the server drops', async () => {
+    connect()
+    await vi.waitFor(() => expect(standIn.subscriptions).toHaveLength(1))
+    standIn.send(miniTicker('BTCUSDT', '105.5'))
+    await vi.waitFor(() => expect(stream?.getStatus()).toBe('live'))
+
+    standIn.clients[0].terminate()
+    await vi.waitFor(() => expect(standIn.subscriptions).toHaveLength(2))
+    expect(standIn.subscriptions[1]).toMatchObject({ method: 'SUBSCRIBE', id: 2 })
+
+    standIn.send(miniTicker('BTCUSDT', '106'))
+    await vi.waitFor(() => expect(received.map(ticker => ticker.close)).toEqual([105.5, 106]))
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting', 'live'])
+  })
+
+  it('treats a silent socket as dead and reconnects', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    connect({ heartbeatTimeout: 50 })
+    await vi.waitFor(() => expect(standIn.clients).toHaveLength(2))
+    expect(statuses).toContain('reconnecting')
+  })
+
+  it('stops without reconnecting', async () => {
+    connect()
+    await vi.waitFor(() => expect(standIn.subscriptions).toHaveLength(1))
+
+    stream?.stop()
+    expect(stream?.getStatus()).toBe('closed')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect(standIn.clients).toHaveLength(1)
+  })
+})
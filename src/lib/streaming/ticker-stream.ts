@@ -0,0 +1,172 @@
+// Reconnecting client for Binance-style market streams. Subscriptions are
+// replayed on every (re)connect, a silent socket is treated as dead after the
+// heartbeat timeout, and after repeated failures the stream reports
+// "fallback" so callers can resume REST polling while it keeps retrying.
+
+import { z } from 'zod'
+import { itemLabel, numeric, parseEach } from '@/lib/validation'
+
+export const DEFAULT_TICKER_STREAM_URL =
+  import.meta.env.VITE_TICKER_STREAM_URL ?? 'wss://stream.binance.com:9443/ws'
+
+export type StreamStatus = 'connecting' | 'live' | 'reconnecting' | 'fallback' | 'closed'
+
+export interface MiniTicker {
+  symbol: string
+  eventTime: number
+  open: number
+  close: number
+  high: number
+  low: number
+  quoteVolume: number
+}
+
+const miniTickerSchema = z.object({
+  E: z.number(),
+  s: z.string().min(1),
+  c: numeric,
+  o: numeric,
+  h: numeric,
+  l: numeric,
+  q: numeric
+}).transform((raw): MiniTicker => ({
+  symbol: raw.s,
+  eventTime: raw.E,
+  open: raw.o,
+  close: raw.c,
+  high: raw.h,
+  low: raw.l,
+  quoteVolume: raw.q
+}))
+
+export interface TickerStreamOptions {
+  streams: string[]
+  onTickers: (tickers: MiniTicker[]) => void
+  onStatusChange?: (status: StreamStatus) => void
+  url?: string
+  // No message for this long means the connection is dead
+  heartbeatTimeout?: number
+  maxReconnectDelay?: number
+  // Consecutive failed attempts before reporting "fallback"
+  fallbackAfterAttempts?: number
+  WebSocketImpl?: typeof WebSocket
+}
+
+export interface TickerStream {
+  start: () => void
+  stop: () => void
+  getStatus: () => StreamStatus
+}
+
+const isMiniTicker = (item: unknown) => (item as { e?: unknown } | null)?.e === '24hrMiniTicker'
+
+export function parseStreamMessage(data: string): MiniTicker[] {
+  const message = JSON.parse(data)
+  const payload = message?.data ?? message // combined-stream envelope
+
+  // Subscription acks and other control messages carry no tickers
+  const items: unknown[] = (Array.isArray(payload) ? payload : [payload]).filter(isMiniTicker)
+  return parseEach('Binance ticker stream', miniTickerSchema, items, itemLabel('s'))
+}
+
+export function createTickerStream({
+  streams,
+  onTickers,
+  onStatusChange,
+  url = DEFAULT_TICKER_STREAM_URL,
+  heartbeatTimeout = 10_000,
+  maxReconnectDelay = 30_000,
+  fallbackAfterAttempts = 3,
+  WebSocketImpl = WebSocket
+}: TickerStreamOptions): TickerStream {
+  let socket: WebSocket | null = null
+  let status: StreamStatus = 'closed'
+  let attempts = 0
+  let requestId = 0
+  let stopped = true
+  let heartbeatTimer: ReturnType<typeof setTimeout> | undefined
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined
+
+  const setStatus = (next: StreamStatus) => {
+    if (next === status) return
+    status = next
+    onStatusChange?.(next)
+  }
+
+  const resetHeartbeat = () => {
+    clearTimeout(heartbeatTimer)
+    heartbeatTimer = setTimeout(() => {
+      console.warn(`Ticker stream silent for ${heartbeatTimeout}ms, reconnecting`)
+      socket?.close()
+    }, heartbeatTimeout)
+  }
+
+  const scheduleReconnect = () => {
+    if (stopped) return
+    attempts += 1
+    setStatus(attempts >= fallbackAfterAttempts ? 'fallback' : 'reconnecting')
+
+    // 1s, 2s, 4s ... with jitter so many tabs don't reconnect in lockstep
+    const delay = Math.min(maxReconnectDelay, 1000 * 2 ** (attempts - 1)) * (0.75 + Math.random() * 0.5)
+    reconnectTimer = setTimeout(connect, delay)
+  }
+
+  const connect = () => {
+    if (stopped) return
+    if (status !== 'fallback' && status !== 'reconnecting') setStatus('connecting')
+
+    const ws = new WebSocketImpl(url)
+    socket = ws
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ method: 'SUBSCRIBE', params: streams, id: ++requestId }))
+      resetHeartbeat()
+    }
+
+    ws.onmessage = (event) => {
+      resetHeartbeat()
+      let tickers: MiniTicker[]
+      try {
+        tickers = parseStreamMessage(String(event.data))
+      } catch (error) {
+        console.warn('Ignoring malformed ticker stream message:', error)
+        return
+      }
+      if (tickers.length === 0) return
+
+      attempts = 0
+      setStatus('live')
+      onTickers(tickers)
+    }
+
+    ws.onclose = () => {
+      clearTimeout(heartbeatTimer)
+      if (socket !== ws) return
+      socket = null
+      scheduleReconnect()
+    }
+
+    ws.onerror = () => ws.close()
+  }
+
+  return {
+    start() {
+      if (!stopped) return
+      stopped = false
+      attempts = 0
+      connect()
+    },
+
+    stop() {
+      stopped = true
+      clearTimeout(heartbeatTimer)
+      clearTimeout(reconnectTimer)
+      const ws = socket
+      socket = null
+      ws?.close()
+      setStatus('closed')
+    },
+
+    getStatus: () => status
+  }
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod'
+import { getTradingPair } from '@/lib/coins'
+
+// TradingView only has light and dark; anything else (an unresolved
+// `system`, say) gets the dark chart the app always used
+export type TradingViewTheme = 'light' | 'dark'
+
+export function tradingViewTheme(theme: string | undefined): TradingViewTheme {
+  return theme === 'light' ? 'light' : 'dark'
+}
+
+export const TRADINGVIEW_INTERVALS = ['15', '60', '240', 'D', 'W'] as const
+
+export type TradingViewInterval = typeof TRADINGVIEW_INTERVALS[number]
+
+export const TRADINGVIEW_INTERVAL_LABELS: Record<TradingViewInterval, string> = {
+  '15': '15m',
+  '60': '1h',
+  '240': '4h',
+  'D': '1D',
+  'W': '1W'
+}
+
+export const TRADINGVIEW_STUDIES = [
+  'CPR@tv-basicstudies',
+  'PivotPointsStandard@tv-basicstudies',
+  'Volume@tv-basicstudies',
+  'RSI@tv-basicstudies',
+  'MACD@tv-basicstudies',
+  'MASimple@tv-basicstudies'
+] as const
+
+export type TradingViewStudy = typeof TRADINGVIEW_STUDIES[number]
+
+export const TRADINGVIEW_STUDY_LABELS: Record<TradingViewStudy, string> = {
+  'CPR@tv-basicstudies': 'CPR',
+  'PivotPointsStandard@tv-basicstudies': 'Pivot points',
+  'Volume@tv-basicstudies': 'Volume',
+  'RSI@tv-basicstudies': 'RSI',
+  'MACD@tv-basicstudies': 'MACD',
+  'MASimple@tv-basicstudies': 'Moving average'
+}
+
+export const tradingViewOptionsSchema = z.object({
+  interval: z.enum(TRADINGVIEW_INTERVALS),
+  studies: z.array(z.enum(TRADINGVIEW_STUDIES)),
+  // `auto` follows the app theme
+  theme: z.enum(['auto', 'light', 'dark']),
+  // Coin symbol -> TradingView symbol, for coins that don't trade as
+  // BINANCE:<SYMBOL>USDT (e.g. { PEPE: 'BINANCE:1000PEPEUSDT' })
+  symbols: z.record(z.string(), z.string().trim().min(1))
+})
+
+export type TradingViewOptions = z.infer<typeof tradingViewOptionsSchema>
+
+export const DEFAULT_TRADINGVIEW_OPTIONS: TradingViewOptions = {
+  interval: '60',
+  studies: ['CPR@tv-basicstudies'],
+  theme: 'auto',
+  symbols: {}
+}
+
+// Green/red volume bars and candles matching the dashboard's colors
+const STUDIES_OVERRIDES = {
+  'volume.volume.color.0': 'rgba(47,133,90,0.8)',
+  'volume.volume.color.1': 'rgba(235,77,92,0.8)'
+}
+
+const CHART_OVERRIDES = {
+  'mainSeriesProperties.candleStyle.upColor': '#26a69a',
+  'mainSeriesProperties.candleStyle.downColor': '#ef4444',
+  'mainSeriesProperties.candleStyle.borderUpColor': '#26a69a',
+  'mainSeriesProperties.candleStyle.borderDownColor': '#ef4444',
+  'mainSeriesProperties.candleStyle.wickUpColor': '#26a69a',
+  'mainSeriesProperties.candleStyle.wickDownColor': '#ef4444'
+}
+
+export function tradingViewSymbol(symbol: string, options: TradingViewOptions = DEFAULT_TRADINGVIEW_OPTIONS) {
+  return options.symbols[symbol.toUpperCase()] ?? `BINANCE:${getTradingPair(symbol)}`
+}
+
+// `appTheme` is next-themes' resolved theme, used when the options say `auto`
+function chartTheme(options: TradingViewOptions, appTheme: string | undefined) {
+  return tradingViewTheme(options.theme === 'auto' ? appTheme : options.theme)
+}
+
+// Full TradingView chart page with the configured studies and colors
+export function getTradingViewUrl(symbol: string, theme?: string, options: TradingViewOptions = DEFAULT_TRADINGVIEW_OPTIONS) {
+  const params = new URLSearchParams({
+    symbol: tradingViewSymbol(symbol, options),
+    interval: options.interval,
+    studies_overrides: JSON.stringify(STUDIES_OVERRIDES),
+    overrides: JSON.stringify(CHART_OVERRIDES),
+    studies: JSON.stringify(options.studies.map(id => ({ id, inputs: {} }))),
+    theme: chartTheme(options, theme)
+  })
+  return `https://www.tradingview.com/chart/?${params}`
+}
+
+// Advanced chart widget page, the same one TradingView's embed script loads
+// into its iframe
+export function getTradingViewEmbedUrl(symbol: string, theme?: string, options: TradingViewOptions = DEFAULT_TRADINGVIEW_OPTIONS) {
+  const params = new URLSearchParams({
+    symbol: tradingViewSymbol(symbol, options),
+    interval: options.interval,
+    theme: chartTheme(options, theme),
+    style: '1',
+    timezone: 'Etc/UTC',
+    locale: 'en',
+    withdateranges: '1',
+    allow_symbol_change: '1',
+    saveimage: '0',
+    // Multiple studies are separated by the unit separator character
+    studies: options.studies.join('\x1f'),
+    studies_overrides: JSON.stringify(STUDIES_OVERRIDES),
+    overrides: JSON.stringify(CHART_OVERRIDES)
+  })
+  return `https://s.tradingview.com/widgetembed/?${params}`
+}
+
+export function openTradingViewChart(symbol: string, theme?: string, options?: TradingViewOptions) {
+  // Open in new tab
+  window.open(getTradingViewUrl(symbol, theme, options), '_blank', 'noopener,noreferrer')
+}
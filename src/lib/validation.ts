@@ -0,0 +1,72 @@
+import { z } from 'zod'
+import { reportDropped } from '@/lib/diagnostics'
+
+// Numbers arrive as numbers from some APIs and as strings ("42.10") from
+// others. z.coerce.number() alone would turn null and "" into 0, which is a
+// believable price, so those are rejected before coercing.
+export const numeric = z
+  .union([z.number(), z.string().trim().min(1)], { error: 'Expected a number' })
+  .pipe(z.coerce.number<string | number>({ error: 'Not a number' }).refine(Number.isFinite, 'Expected a finite number'))
+
+// For fields the UI already treats as optional: missing, null or garbage
+// becomes null instead of rejecting the whole item
+export const optionalNumeric = numeric.nullish().catch(null).transform(value => value ?? null)
+
+// Epoch milliseconds, as a number or a numeric string; 0/"" mean "unknown"
+export const optionalTimestamp = optionalNumeric.transform(value => value || null)
+
+export function describeIssues(error: z.ZodError) {
+  return error.issues
+    .slice(0, 3)
+    .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    .join('; ')
+}
+
+// Validates the outer shape of a response. A rate-limit or error body in
+// place of the expected payload fails the whole request with a readable
+// message, since there is nothing per-item to salvage.
+export function parseResponse<T extends z.ZodType>(source: string, schema: T, data: unknown): z.infer<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(`${source}: unexpected response (${describeIssues(parsed.error)})`)
+  }
+  return parsed.data
+}
+
+// Validates each item on its own so one malformed coin is dropped (and
+// reported to the diagnostics panel) instead of failing the whole batch
+export function parseEach<T extends z.ZodType>(
+  source: string,
+  schema: T,
+  items: unknown[],
+  describeItem: (item: unknown, index: number) => string
+): z.infer<T>[] {
+  const valid: z.infer<T>[] = []
+  const dropped: { source: string; item: string; reason: string }[] = []
+
+  items.forEach((item, index) => {
+    const parsed = schema.safeParse(item)
+    if (parsed.success) valid.push(parsed.data)
+    else dropped.push({ source, item: describeItem(item, index), reason: describeIssues(parsed.error) })
+  })
+
+  if (dropped.length > 0) {
+    console.warn(`${source}: dropped ${dropped.length} invalid item(s)`, dropped)
+    reportDropped(dropped)
+  }
+  return valid
+}
+
+// Best-effort label for an item that failed validation, e.g. its `id` or
+// `symbol` field, falling back to its position in the response
+export function itemLabel(...keys: string[]) {
+  return (item: unknown, index: number) => {
+    if (item && typeof item === 'object') {
+      for (const key of keys) {
+        const value = (item as Record<string, unknown>)[key]
+        if (typeof value === 'string' && value) return value
+      }
+    }
+    return `#${index}`
+  }
+}
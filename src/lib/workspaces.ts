@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { cardLayoutSchema, DEFAULT_CARD_LAYOUT } from '@/lib/card-layout'
+import { DEFAULT_WATCHLIST } from '@/lib/coins'
+import { DEFAULT_SIGNAL_RULES, signalRuleSetSchema } from '@/lib/signals/rules'
+import { readStorage, removeStorage, writeStorage } from '@/lib/storage'
+
+export const DASHBOARD_VIEWS = ['cards', 'table', 'heatmap'] as const
+
+export type DashboardView = typeof DASHBOARD_VIEWS[number]
+
+// The first workspace keeps the storage keys the app used before workspaces
+// existed, so nobody loses their watchlist or rules on upgrade
+export const DEFAULT_WORKSPACE_ID = 'default'
+
+// Every piece of state that belongs to a workspace, with the value a new
+// workspace starts from
+export const WORKSPACE_DEFAULTS = {
+  'watchlist': DEFAULT_WATCHLIST,
+  'dashboard-view': 'cards' as DashboardView,
+  'signal-rules': DEFAULT_SIGNAL_RULES,
+  'card-layout': DEFAULT_CARD_LAYOUT
+}
+
+export type WorkspaceKey = keyof typeof WORKSPACE_DEFAULTS
+
+const WORKSPACE_KEYS = Object.keys(WORKSPACE_DEFAULTS) as WorkspaceKey[]
+
+export const workspaceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1)
+})
+
+export const workspaceStateSchema = z.object({
+  activeId: z.string(),
+  workspaces: z.array(workspaceSchema).min(1)
+})
+
+export type Workspace = z.infer<typeof workspaceSchema>
+export type WorkspaceState = z.infer<typeof workspaceStateSchema>
+
+export const DEFAULT_WORKSPACE_STATE: WorkspaceState = {
+  activeId: DEFAULT_WORKSPACE_ID,
+  workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Main' }]
+}
+
+export function workspaceStorageKey(workspaceId: string, key: WorkspaceKey) {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `workspace:${workspaceId}:${key}`
+}
+
+const coinInfoSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  name: z.string(),
+  image: z.string()
+})
+
+export const workspaceExportSchema = z.object({
+  version: z.literal(1),
+  name: z.string().trim().min(1),
+  coins: z.array(coinInfoSchema),
+  view: z.enum(DASHBOARD_VIEWS),
+  signalRules: signalRuleSetSchema,
+  cardLayout: cardLayoutSchema
+})
+
+export type WorkspaceExport = z.infer<typeof workspaceExportSchema>
+
+// Reads one workspace's state, falling back to defaults for anything stored
+// in a shape the schemas no longer accept
+export function exportWorkspace(workspace: Workspace): WorkspaceExport {
+  const read = <T>(key: WorkspaceKey, schema: z.ZodType<T>, fallback: T) => {
+    const parsed = schema.safeParse(readStorage<unknown>(workspaceStorageKey(workspace.id, key), fallback))
+    return parsed.success ? parsed.data : fallback
+  }
+
+  return {
+    version: 1,
+    name: workspace.name,
+    coins: read('watchlist', z.array(coinInfoSchema), DEFAULT_WATCHLIST),
+    view: read('dashboard-view', z.enum(DASHBOARD_VIEWS), WORKSPACE_DEFAULTS['dashboard-view']),
+    signalRules: read('signal-rules', signalRuleSetSchema, DEFAULT_SIGNAL_RULES),
+    cardLayout: read('card-layout', cardLayoutSchema, DEFAULT_CARD_LAYOUT)
+  }
+}
+
+export function writeWorkspace(workspaceId: string, data: WorkspaceExport) {
+  writeStorage(workspaceStorageKey(workspaceId, 'watchlist'), data.coins)
+  writeStorage(workspaceStorageKey(workspaceId, 'dashboard-view'), data.view)
+  writeStorage(workspaceStorageKey(workspaceId, 'signal-rules'), data.signalRules)
+  writeStorage(workspaceStorageKey(workspaceId, 'card-layout'), data.cardLayout)
+}
+
+export function clearWorkspace(workspaceId: string) {
+  WORKSPACE_KEYS.forEach(key => removeStorage(workspaceStorageKey(workspaceId, key)))
+}
+
+// Throws with a readable message so the import UI can show it as is
+export function parseWorkspaceJson(text: string): WorkspaceExport {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+  const parsed = workspaceExportSchema.safeParse(json)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Not a workspace export: ${issue.path.join('.') || 'file'} ${issue.message}`)
+  }
+  return parsed.data
+}
+
+export function downloadWorkspace(data: WorkspaceExport) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `workspace-${data.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// "Majors" -> "Majors 2" when the name is taken
+export function uniqueWorkspaceName(name: string, workspaces: Workspace[]) {
+  const taken = new Set(workspaces.map(workspace => workspace.name))
+  if (!taken.has(name)) return name
+  let n = 2
+  while (taken.has(`${name} ${n}`)) n++
+  return `${name} ${n}`
+}
@@ -1,12 +1,38 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { ChartPanelProvider } from './components/ChartPanel'
+import { ThemeProvider } from './components/ThemeProvider'
+import { WorkspaceSidebar } from './components/WorkspaceSidebar'
+import { SidebarProvider } from './components/ui/sidebar'
+import { registerServiceWorker } from './lib/pwa'
 import './index.css'
 
+registerServiceWorker()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <Toaster position="top-right" />
-    <App />
+    <ThemeProvider>
+      <BrowserRouter>
+        <Toaster
+          position="top-right"
+          toastOptions={{
+            style: {
+              background: 'hsl(var(--popover))',
+              color: 'hsl(var(--popover-foreground))',
+              border: '1px solid hsl(var(--border))'
+            }
+          }}
+        />
+        <ChartPanelProvider>
+          <SidebarProvider defaultOpen={false}>
+            <WorkspaceSidebar />
+            <App />
+          </SidebarProvider>
+        </ChartPanelProvider>
+      </BrowserRouter>
+    </ThemeProvider>
   </React.StrictMode>,
 ) 
\ No newline at end of file
@@ -0,0 +1,274 @@
+import { useMemo, useState, type ChangeEvent } from 'react'
+import { format } from 'date-fns'
+import { Play, Upload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { EquityChart } from '@/components/EquityChart'
+import { SignalRulesDialog } from '@/components/SignalRulesDialog'
+import { useSignalRules } from '@/hooks/use-signal-rules'
+import { parseFundingCsv, parseHistoryCsv, type HistorySeries } from '@/lib/backtest/csv'
+import { DEFAULT_BACKTEST_OPTIONS, runBacktest, type BacktestOptions, type BacktestResult } from '@/lib/backtest/engine'
+import { SAMPLE_HISTORY } from '@/lib/backtest/sample'
+import { formatPrice } from '@/lib/format'
+
+interface LoadedHistory extends HistorySeries {
+  name: string
+}
+
+function loadSample(): LoadedHistory {
+  return { name: SAMPLE_HISTORY.name, ...parseHistoryCsv(SAMPLE_HISTORY.csv) }
+}
+
+function formatPercent(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+function readFile(event: ChangeEvent<HTMLInputElement>) {
+  const file = event.target.files?.[0]
+  // Allow picking the same file again after fixing it
+  event.target.value = ''
+  return file ? file.text().then(text => ({ name: file.name, text })) : null
+}
+
+export function Backtest() {
+  const { ruleSet } = useSignalRules()
+  const [history, setHistory] = useState<LoadedHistory>(loadSample)
+  const [options, setOptions] = useState<BacktestOptions>(DEFAULT_BACKTEST_OPTIONS)
+  const [result, setResult] = useState<BacktestResult | null>(null)
+
+  const updateOption = <K extends keyof BacktestOptions>(key: K, value: BacktestOptions[K]) =>
+    setOptions(prev => ({ ...prev, [key]: value }))
+
+  const importCandles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = await readFile(event)
+    if (!file) return
+    try {
+      setHistory({ name: file.name, ...parseHistoryCsv(file.text) })
+      setResult(null)
+    } catch (error) {
+      toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Could not read CSV'}`)
+    }
+  }
+
+  const importFunding = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = await readFile(event)
+    if (!file) return
+    try {
+      const funding = parseFundingCsv(file.text)
+      setHistory(prev => ({ ...prev, name: `${prev.name} + ${file.name}`, funding }))
+      setResult(null)
+    } catch (error) {
+      toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Could not read CSV'}`)
+    }
+  }
+
+  const run = () => setResult(runBacktest(history, ruleSet, options))
+
+  const range = useMemo(() => {
+    const { candles } = history
+    return `${format(candles[0].time, 'MMM d, yyyy')} – ${format(candles[candles.length - 1].time, 'MMM d, yyyy')}`
+  }, [history])
+
+  const stats = result ? [
+    { label: 'Total return', value: formatPercent(result.totalReturnPercent), positive: result.totalReturnPercent >= 0 },
+    { label: 'Buy & hold', value: formatPercent(result.buyAndHoldReturnPercent), positive: result.buyAndHoldReturnPercent >= 0 },
+    { label: 'Max drawdown', value: `${result.maxDrawdownPercent.toFixed(2)}%`, positive: false },
+    { label: 'Sharpe', value: result.sharpe !== null ? result.sharpe.toFixed(2) : 'N/A' },
+    { label: 'Win rate', value: result.winRate !== null ? `${(result.winRate * 100).toFixed(0)}%` : 'N/A' },
+    { label: 'Trades', value: String(result.trades.length) },
+    { label: 'Fees paid', value: formatPrice(result.feesPaid) },
+    { label: 'Funding paid', value: formatPrice(result.fundingPaid) }
+  ] : []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Backtest</h2>
+        <p className="text-sm text-muted-foreground">
+          Replays candle and funding history through your current signal rules. Signals are evaluated at each
+          bar close and filled at the next bar's open.
+        </p>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-lg">History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm">
+              <p className="font-medium">{history.name}</p>
+              <p className="text-muted-foreground">
+                {history.candles.length} candles • {range} • {history.funding.length} funding settlements
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload />
+                  Import candles CSV
+                  <input type="file" accept=".csv,text/csv" className="sr-only" onChange={importCandles} />
+                </label>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload />
+                  Import funding CSV
+                  <input type="file" accept=".csv,text/csv" className="sr-only" onChange={importFunding} />
+                </label>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => { setHistory(loadSample()); setResult(null) }}>
+                Use sample
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Candles: <code>time,open,high,low,close,volume[,funding_rate]</code> with USD volume. Funding:{' '}
+              <code>time,funding_rate</code> as a fraction or percent (e.g. <code>0.0100%</code>).
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card border-border">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg">Strategy</CardTitle>
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              {ruleSet.rules.filter(rule => rule.enabled).length} rules
+              <SignalRulesDialog />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="backtest-symbol">Symbol</Label>
+                <Input
+                  id="backtest-symbol"
+                  value={options.symbol}
+                  onChange={(e) => updateOption('symbol', e.target.value.toUpperCase())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backtest-capital">Capital ($)</Label>
+                <Input
+                  id="backtest-capital"
+                  type="number"
+                  min={1}
+                  value={options.initialCapital}
+                  onChange={(e) => updateOption('initialCapital', Number(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backtest-fee">Fee per side (%)</Label>
+                <Input
+                  id="backtest-fee"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={options.feePercent}
+                  onChange={(e) => updateOption('feePercent', Number(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="backtest-shorts">Take SELL signals as shorts</Label>
+              <Switch
+                id="backtest-shorts"
+                checked={options.allowShorts}
+                onCheckedChange={(checked) => updateOption('allowShorts', checked)}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="backtest-neutral">Exit when the signal turns neutral</Label>
+              <Switch
+                id="backtest-neutral"
+                checked={options.exitOnNeutral}
+                onCheckedChange={(checked) => updateOption('exitOnNeutral', checked)}
+              />
+            </div>
+            <Button onClick={run} disabled={options.initialCapital <= 0} className="w-full">
+              <Play />
+              Run backtest
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {stats.map(stat => (
+              <Card key={stat.label} className="bg-card border-border">
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                  <p className={`font-semibold ${stat.positive === undefined ? '' : stat.positive ? 'text-green-500' : 'text-red-500'}`}>
+                    {stat.value}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="text-lg">Equity curve</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <EquityChart equity={result.equity} />
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="text-lg">Trades</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.trades.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The rules never produced a BUY or SELL on this history.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Side</TableHead>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Exit</TableHead>
+                      <TableHead className="text-right">Entry price</TableHead>
+                      <TableHead className="text-right">Exit price</TableHead>
+                      <TableHead className="text-right">Fees</TableHead>
+                      <TableHead className="text-right">Funding</TableHead>
+                      <TableHead className="text-right">P&L</TableHead>
+                      <TableHead>Rules</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.trades.map(trade => (
+                      <TableRow key={trade.entryTime}>
+                        <TableCell className={trade.side === 'long' ? 'text-green-500' : 'text-red-500'}>
+                          {trade.side.toUpperCase()}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-xs">{format(trade.entryTime, 'MMM d, HH:mm')}</TableCell>
+                        <TableCell className="whitespace-nowrap text-xs">{format(trade.exitTime, 'MMM d, HH:mm')}</TableCell>
+                        <TableCell className="text-right font-mono">{formatPrice(trade.entryPrice)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatPrice(trade.exitPrice)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatPrice(trade.fees)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatPrice(trade.funding)}</TableCell>
+                        <TableCell className={`text-right font-mono ${trade.pnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                          {formatPrice(trade.pnl)}
+                          <span className="ml-1 text-xs">({formatPercent(trade.returnPercent)})</span>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{trade.reasons.join(', ') || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, ChartCandlestick, TrendingDown, TrendingUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CandlestickChart } from '@/components/CandlestickChart'
+import { CoinIcon } from '@/components/CoinIcon'
+import { CprBadge } from '@/components/CprBadge'
+import { FreshnessBadge } from '@/components/FreshnessBadge'
+import { useCandles } from '@/hooks/use-candles'
+import { useChartPanel } from '@/hooks/use-chart-panel'
+import { useMarketSelector } from '@/hooks/use-market-data'
+import { formatPrice, formatVolume } from '@/lib/format'
+import { computeCprSet, CPR_PERIODS, type CprPeriod } from '@/lib/indicators/cpr'
+import type { MarketDataProvider } from '@/lib/providers'
+import type { CandleInterval } from '@/types/crypto'
+
+const INTERVALS: CandleInterval[] = ['1h', '4h', '1d', '1w']
+
+const CPR_OPTIONS: { value: CprPeriod | 'off'; label: string }[] = [
+  { value: 'daily', label: 'Daily CPR' },
+  { value: 'weekly', label: 'Weekly CPR' },
+  { value: 'monthly', label: 'Monthly CPR' },
+  { value: 'off', label: 'CPR off' }
+]
+
+interface CoinDetailProps {
+  provider: MarketDataProvider
+}
+
+export function CoinDetail({ provider }: CoinDetailProps) {
+  const { id } = useParams<{ id: string }>()
+  const { openChart } = useChartPanel()
+  const [interval, setCandleInterval] = useState<CandleInterval>('1h')
+  const [cprPeriod, setCprPeriod] = useState<CprPeriod | 'off'>('daily')
+  const coin = useMarketSelector(state => Object.values(state.coins).find(c => c.id === id))
+  const { candles, loading, error } = useCandles(provider, coin, interval)
+  const { candles: dailyCandles } = useCandles(provider, coin, '1d')
+  const cprSet = useMemo(() => computeCprSet(dailyCandles), [dailyCandles])
+
+  if (!coin) {
+    return (
+      <div className="py-16 text-center space-y-4">
+        <p className="text-muted-foreground">This coin is not on your watchlist.</p>
+        <Button asChild variant="outline">
+          <Link to="/"><ArrowLeft />Back to dashboard</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const isUp = coin.price_change_percentage_24h >= 0
+  const stats = [
+    { label: '24h High', value: formatPrice(coin.high_24h) },
+    { label: '24h Low', value: formatPrice(coin.low_24h) },
+    { label: 'Volume 24h', value: formatVolume(coin.total_volume) },
+    { label: 'All-Time High', value: coin.ath !== null ? formatPrice(coin.ath) : 'N/A' },
+    { label: 'ATH Distance', value: coin.ath_change_percentage !== null ? `${coin.ath_change_percentage.toFixed(1)}%` : 'N/A' }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon" aria-label="Back to dashboard">
+            <Link to="/"><ArrowLeft /></Link>
+          </Button>
+          <CoinIcon image={coin.image} name={coin.name} symbol={coin.symbol} className="h-12 w-12" />
+          <div>
+            <h2 className="text-2xl font-bold">
+              {coin.name} <span className="text-base uppercase text-muted-foreground">{coin.symbol}</span>
+            </h2>
+            <div className="flex items-center gap-2">
+              <span className="text-xl font-semibold">{formatPrice(coin.current_price)}</span>
+              <span className={`flex items-center gap-1 text-sm font-medium ${isUp ? 'text-green-500' : 'text-red-500'}`}>
+                {isUp ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                {isUp ? '+' : ''}{coin.price_change_percentage_24h.toFixed(2)}%
+              </span>
+              <FreshnessBadge provenance={coin.provenance} />
+            </div>
+          </div>
+        </div>
+
+        <Button variant="outline" onClick={() => openChart(coin.symbol)}>
+          <ChartCandlestick />
+          TradingView chart
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label} className="bg-card border-border">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="font-semibold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Price</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={cprPeriod} onValueChange={(value) => setCprPeriod(value as CprPeriod | 'off')}>
+              <SelectTrigger className="w-36" aria-label="CPR period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CPR_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Tabs value={interval} onValueChange={(value) => setCandleInterval(value as CandleInterval)}>
+              <TabsList>
+                {INTERVALS.map(i => <TabsTrigger key={i} value={i}>{i}</TabsTrigger>)}
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-[468px] w-full" />
+          ) : error || candles.length === 0 ? (
+            <div className="flex h-[468px] items-center justify-center text-sm text-muted-foreground">
+              {error ? `Could not load candles: ${error}` : 'No candle data for this coin.'}
+            </div>
+          ) : (
+            <CandlestickChart
+              candles={candles}
+              interval={interval}
+              high24h={coin.high_24h}
+              low24h={coin.low_24h}
+              ath={coin.ath}
+              cpr={cprPeriod === 'off' ? null : cprSet[cprPeriod]}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Central Pivot Range</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          {CPR_PERIODS.map((period) => {
+            const levels = cprSet[period]
+            if (!levels) {
+              return (
+                <div key={period} className="text-sm text-muted-foreground">
+                  <p className="font-medium capitalize text-foreground">{period}</p>
+                  Not enough history
+                </div>
+              )
+            }
+
+            return (
+              <div key={period} className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium capitalize">{period}</p>
+                  <CprBadge price={coin.current_price} levels={levels} className="text-xs" />
+                </div>
+                {([
+                  ['R3', levels.r3], ['R2', levels.r2], ['R1', levels.r1],
+                  ['TC', levels.tc], ['Pivot', levels.pivot], ['BC', levels.bc],
+                  ['S1', levels.s1], ['S2', levels.s2], ['S3', levels.s3]
+                ] as const).map(([label, value]) => (
+                  <div key={label} className="flex justify-between text-muted-foreground">
+                    <span>{label}</span>
+                    <span className="font-mono tabular-nums text-foreground">{formatPrice(value)}</span>
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { MarketHeatmap } from '@/components/MarketHeatmap'
+import { useChartPanel } from '@/hooks/use-chart-panel'
+import { MARKET_UNIVERSE_SIZES, useMarketUniverse } from '@/hooks/use-market-universe'
+import { usePersistentState } from '@/hooks/use-persistent-state'
+import { useSettings } from '@/hooks/use-settings'
+import { useWatchlist } from '@/hooks/use-watchlist'
+import {
+  buildHeatmap,
+  HEATMAP_COLOR_METRICS,
+  HEATMAP_SIZE_METRICS,
+  heatColor,
+  type HeatmapCategory,
+  type HeatmapColorMetric,
+  type HeatmapSizeMetric,
+  type HeatmapTile
+} from '@/lib/heatmap'
+import type { MarketDataProvider } from '@/lib/providers'
+
+interface HeatmapOptions {
+  size: number
+  sizeMetric: HeatmapSizeMetric
+  colorMetric: HeatmapColorMetric
+}
+
+const DEFAULT_HEATMAP_OPTIONS: HeatmapOptions = { size: 100, sizeMetric: 'volume', colorMetric: 'change24h' }
+
+interface HeatmapProps {
+  provider: MarketDataProvider
+}
+
+export function Heatmap({ provider }: HeatmapProps) {
+  const navigate = useNavigate()
+  const { openChart } = useChartPanel()
+  const { settings } = useSettings()
+  const { hasCoin } = useWatchlist()
+  const [options, setOptions] = usePersistentState<HeatmapOptions>('heatmap-options', DEFAULT_HEATMAP_OPTIONS)
+  const [category, setCategory] = useState<HeatmapCategory | null>(null)
+  const { markets, fundingRates, loading, error, loadedAt, reload } = useMarketUniverse(provider, settings.fundingExchange, options.size)
+
+  const { groups, skipped } = useMemo(
+    () => buildHeatmap(markets, fundingRates, options.sizeMetric, options.colorMetric),
+    [markets, fundingRates, options.sizeMetric, options.colorMetric]
+  )
+  const visibleGroups = category ? groups.filter(group => group.category === category) : groups
+  const { limit } = HEATMAP_COLOR_METRICS[options.colorMetric]
+
+  // Only watched coins have a detail page; the rest open in the TradingView panel
+  const selectCoin = (tile: HeatmapTile) => {
+    if (hasCoin(tile.symbol)) navigate(`/coin/${tile.id}`)
+    else openChart(tile.symbol)
+  }
+
+  const updateOptions = (patch: Partial<HeatmapOptions>) => setOptions(prev => ({ ...prev, ...patch }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Heatmap</h2>
+          <p className="text-sm text-muted-foreground">
+            Top {options.size} coins on {provider.name}
+            {loadedAt && ` · loaded ${loadedAt.toLocaleTimeString()}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={String(options.size)} onValueChange={(value) => updateOptions({ size: Number(value) })}>
+            <SelectTrigger className="w-28" aria-label="Universe size"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {MARKET_UNIVERSE_SIZES.map(n => <SelectItem key={n} value={String(n)}>Top {n}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={options.sizeMetric} onValueChange={(value) => updateOptions({ sizeMetric: value as HeatmapSizeMetric })}>
+            <SelectTrigger className="w-40" aria-label="Size by"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HEATMAP_SIZE_METRICS) as HeatmapSizeMetric[]).map(key => (
+                <SelectItem key={key} value={key}>Size: {HEATMAP_SIZE_METRICS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={options.colorMetric} onValueChange={(value) => updateOptions({ colorMetric: value as HeatmapColorMetric })}>
+            <SelectTrigger className="w-44" aria-label="Color by"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HEATMAP_COLOR_METRICS) as HeatmapColorMetric[]).map(key => (
+                <SelectItem key={key} value={key}>Color: {HEATMAP_COLOR_METRICS[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={reload} disabled={loading}>
+            <RefreshCw className={loading ? 'animate-spin' : ''} />
+            Reload
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <Button variant={category === null ? 'secondary' : 'ghost'} size="sm" onClick={() => setCategory(null)}>
+          All
+        </Button>
+        {groups.map(group => (
+          <Button
+            key={group.category}
+            variant={category === group.category ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setCategory(group.category)}
+          >
+            {group.name}
+            <span className="text-xs text-muted-foreground">{group.children.length}</span>
+          </Button>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardContent className="p-4">
+          {error ? (
+            <p className="text-sm text-red-500">Could not load markets: {error}</p>
+          ) : loading && markets.length === 0 ? (
+            <Skeleton className="h-[600px] w-full" />
+          ) : visibleGroups.length === 0 ? (
+            <p className="py-16 text-center text-sm text-muted-foreground">No coins to show.</p>
+          ) : (
+            <MarketHeatmap
+              groups={visibleGroups}
+              limit={limit}
+              onSelectCoin={selectCoin}
+              onSelectCategory={setCategory}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <span>-{limit}%</span>
+          <div
+            className="h-2 w-40 rounded-full"
+            style={{ background: `linear-gradient(to right, ${heatColor(-limit, limit)}, ${heatColor(0, limit)}, ${heatColor(limit, limit)})` }}
+          />
+          <span>+{limit}%</span>
+        </div>
+        {skipped > 0 && (
+          <span>
+            {skipped} {skipped === 1 ? 'coin has' : 'coins have'} no {HEATMAP_SIZE_METRICS[options.sizeMetric].toLowerCase()} data
+            and {skipped === 1 ? 'is' : 'are'} not shown.
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,249 @@
+import { format } from 'date-fns'
+import { RotateCcw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useMarkets } from '@/hooks/use-market-data'
+import { usePaperAccount } from '@/hooks/use-paper-account'
+import { formatPrice } from '@/lib/format'
+import {
+  accountEquity,
+  INITIAL_PAPER_BALANCE,
+  liquidationPrice,
+  unrealizedPnl,
+  type CloseReason
+} from '@/lib/paper/account'
+
+const CLOSE_REASONS: Record<CloseReason, string> = {
+  manual: 'Closed',
+  signal: 'Signal flip',
+  liquidation: 'Liquidated'
+}
+
+function pnlClass(value: number) {
+  return value >= 0 ? 'text-green-500' : 'text-red-500'
+}
+
+export function PaperTrading() {
+  const coins = useMarkets()
+  const { account, close, updateSettings, reset } = usePaperAccount()
+  const prices = Object.fromEntries(coins.map(coin => [coin.symbol.toUpperCase(), coin.current_price]))
+
+  const equity = accountEquity(account, prices)
+  const unrealized = account.positions.reduce(
+    (total, position) => total + unrealizedPnl(position, prices[position.symbol] ?? position.entryPrice),
+    0
+  )
+  const realized = account.trades.reduce((total, trade) => total + trade.realizedPnl, 0)
+
+  const summary = [
+    { label: 'Equity', value: formatPrice(equity) },
+    { label: 'Free balance', value: formatPrice(account.balance) },
+    { label: 'Unrealized P&L', value: formatPrice(unrealized), className: pnlClass(unrealized) },
+    { label: 'Realized P&L', value: formatPrice(realized), className: pnlClass(realized) },
+    {
+      label: 'Total return',
+      value: `${(((equity - INITIAL_PAPER_BALANCE) / INITIAL_PAPER_BALANCE) * 100).toFixed(2)}%`,
+      className: pnlClass(equity - INITIAL_PAPER_BALANCE)
+    }
+  ]
+
+  const resetAccount = () => {
+    if (window.confirm('Reset the paper account? Open positions and trade history will be deleted.')) reset()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Paper Trading</h2>
+          <p className="text-sm text-muted-foreground">
+            Simulated perpetual positions at live prices, with fees, funding and isolated-margin liquidation.
+            Open one from a BUY/SELL badge or turn on auto-follow.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={resetAccount}>
+          <RotateCcw />
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {summary.map(stat => (
+          <Card key={stat.label} className="bg-card border-border">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={`font-semibold ${stat.className ?? ''}`}>{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Order settings</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-4 md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="paper-margin">Margin per trade ($)</Label>
+            <Input
+              id="paper-margin"
+              type="number"
+              min={1}
+              value={account.settings.margin}
+              onChange={(e) => updateSettings({ margin: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paper-leverage">Leverage (×)</Label>
+            <Input
+              id="paper-leverage"
+              type="number"
+              min={1}
+              max={125}
+              value={account.settings.leverage}
+              onChange={(e) => updateSettings({ leverage: Math.min(125, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paper-fee">Fee per side (%)</Label>
+            <Input
+              id="paper-fee"
+              type="number"
+              min={0}
+              step="0.01"
+              value={account.settings.feePercent}
+              onChange={(e) => updateSettings({ feePercent: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2 pb-2">
+            <Label htmlFor="paper-auto-follow">Auto-follow signals</Label>
+            <Switch
+              id="paper-auto-follow"
+              checked={account.settings.autoFollow}
+              onCheckedChange={(checked) => updateSettings({ autoFollow: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Open positions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {account.positions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open positions.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead className="text-right">Size</TableHead>
+                  <TableHead className="text-right">Entry</TableHead>
+                  <TableHead className="text-right">Mark</TableHead>
+                  <TableHead className="text-right">Liq. price</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Funding</TableHead>
+                  <TableHead className="text-right">Next funding</TableHead>
+                  <TableHead className="text-right">Unrealized P&L</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {account.positions.map(position => {
+                  const mark = prices[position.symbol]
+                  const pnl = mark !== undefined ? unrealizedPnl(position, mark) : null
+                  return (
+                    <TableRow key={position.id}>
+                      <TableCell className="font-medium">
+                        {position.symbol}
+                        {position.source === 'auto' && <span className="ml-1 text-xs text-muted-foreground">auto</span>}
+                      </TableCell>
+                      <TableCell className={position.side === 'long' ? 'text-green-500' : 'text-red-500'}>
+                        {position.side.toUpperCase()} {position.leverage}×
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatPrice(position.quantity * position.entryPrice)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatPrice(position.entryPrice)}</TableCell>
+                      <TableCell className="text-right font-mono">{mark !== undefined ? formatPrice(mark) : '—'}</TableCell>
+                      <TableCell className="text-right font-mono text-yellow-500">{formatPrice(liquidationPrice(position))}</TableCell>
+                      <TableCell className="text-right font-mono">{formatPrice(position.margin)}</TableCell>
+                      <TableCell className={`text-right font-mono ${pnlClass(-position.funding)}`}>{formatPrice(-position.funding)}</TableCell>
+                      <TableCell className="text-right text-xs">
+                        {position.nextFundingTime ? format(position.nextFundingTime, 'HH:mm') : '—'}
+                      </TableCell>
+                      <TableCell className={`text-right font-mono ${pnl !== null ? pnlClass(pnl) : ''}`}>
+                        {pnl !== null ? formatPrice(pnl) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Close ${position.symbol} position`}
+                          disabled={mark === undefined}
+                          onClick={() => close(position.id, mark)}
+                        >
+                          <X />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Trade history</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {account.trades.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Closed positions will show up here.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Closed</TableHead>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead className="text-right">Entry</TableHead>
+                  <TableHead className="text-right">Exit</TableHead>
+                  <TableHead className="text-right">Fees</TableHead>
+                  <TableHead className="text-right">Funding</TableHead>
+                  <TableHead className="text-right">Realized P&L</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {account.trades.map(trade => (
+                  <TableRow key={trade.id}>
+                    <TableCell className="whitespace-nowrap text-xs">{format(trade.closedAt, 'MMM d, HH:mm')}</TableCell>
+                    <TableCell className="font-medium">{trade.symbol}</TableCell>
+                    <TableCell className={trade.side === 'long' ? 'text-green-500' : 'text-red-500'}>
+                      {trade.side.toUpperCase()} {trade.leverage}×
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(trade.entryPrice)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(trade.exitPrice)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(trade.entryFee + trade.exitFee)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(-trade.funding)}</TableCell>
+                    <TableCell className={`text-right font-mono ${pnlClass(trade.realizedPnl)}`}>{formatPrice(trade.realizedPnl)}</TableCell>
+                    <TableCell className={trade.closeReason === 'liquidation' ? 'text-red-500' : 'text-muted-foreground'}>
+                      {CLOSE_REASONS[trade.closeReason]}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+import { useMemo, type ChangeEvent } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Plus, Trash2, Upload } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AllocationChart, ValueHistoryChart } from '@/components/PortfolioCharts'
+import { useMarkets } from '@/hooks/use-market-data'
+import { usePortfolio } from '@/hooks/use-portfolio'
+import { usePortfolioHistory } from '@/hooks/use-portfolio-history'
+import { formatPrice } from '@/lib/format'
+import { computeHoldings, newLotSchema, parseLotsCsv, type NewLot } from '@/lib/portfolio/holdings'
+import type { MarketDataProvider } from '@/lib/providers'
+
+// Number inputs report NaN when empty; zod then flags them as invalid
+const numberField = (onChange: (value: number) => void) =>
+  (event: ChangeEvent<HTMLInputElement>) => onChange(event.target.valueAsNumber)
+
+function pnlClass(value: number | null) {
+  if (value === null) return ''
+  return value >= 0 ? 'text-green-500' : 'text-red-500'
+}
+
+function formatSigned(value: number | null) {
+  if (value === null) return '—'
+  return `${value >= 0 ? '+' : ''}${formatPrice(value)}`
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10)
+}
+
+interface PortfolioProps {
+  provider: MarketDataProvider
+}
+
+export function Portfolio({ provider }: PortfolioProps) {
+  const coins = useMarkets()
+  const { lots, addLots, removeLot } = usePortfolio()
+  const { history, loading: historyLoading } = usePortfolioHistory(provider, lots)
+  const { holdings, totals } = useMemo(() => computeHoldings(lots, coins), [lots, coins])
+  const missing = holdings.filter(holding => !holding.market).map(holding => holding.symbol)
+
+  const form = useForm<NewLot>({
+    resolver: zodResolver(newLotSchema),
+    defaultValues: { symbol: '', quantity: NaN, price: NaN, date: today() }
+  })
+
+  const selectCoin = (symbol: string) => {
+    form.setValue('symbol', symbol)
+    const price = coins.find(coin => coin.symbol.toUpperCase() === symbol)?.current_price
+    if (price !== undefined && Number.isNaN(form.getValues('price'))) form.setValue('price', price)
+  }
+
+  const onSubmit = (values: NewLot) => {
+    addLots([values])
+    form.reset({ symbol: values.symbol, quantity: NaN, price: NaN, date: today() })
+  }
+
+  const importCsv = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const imported = parseLotsCsv(await file.text())
+      addLots(imported)
+      toast.success(`Imported ${imported.length} lots`)
+    } catch (error) {
+      toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Could not read CSV'}`)
+    }
+  }
+
+  const summary = [
+    { label: 'Market value', value: formatPrice(totals.value) },
+    { label: 'Cost basis', value: formatPrice(totals.cost) },
+    { label: 'Unrealized P&L', value: formatSigned(totals.unrealizedPnl), className: pnlClass(totals.unrealizedPnl) },
+    {
+      label: '24h change',
+      value: `${formatSigned(totals.change24h)} (${totals.change24hPercent.toFixed(2)}%)`,
+      className: pnlClass(totals.change24h)
+    }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Portfolio</h2>
+          <p className="text-sm text-muted-foreground">
+            Your holdings valued at live prices. Lots are stored in this browser only.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            <Upload />
+            Import CSV
+            <input type="file" accept=".csv,text/csv" className="sr-only" onChange={importCsv} />
+          </label>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map(stat => (
+          <Card key={stat.label} className="bg-card border-border">
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className={`font-semibold ${stat.className ?? ''}`}>{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-yellow-500">
+          No live price for {missing.join(', ')}. Add {missing.length === 1 ? 'it' : 'them'} to the watchlist to
+          include {missing.length === 1 ? 'it' : 'them'} in value and P&L.
+        </p>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-lg">Allocation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AllocationChart holdings={holdings} />
+          </CardContent>
+        </Card>
+        <Card className="bg-card border-border lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Value over time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <Skeleton className="h-[280px] w-full" />
+            ) : history.length === 0 ? (
+              <p className="py-16 text-center text-sm text-muted-foreground">Add a lot to see its value history.</p>
+            ) : (
+              <ValueHistoryChart history={history} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Holdings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {holdings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holdings yet. Add a lot below or import a CSV.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Coin</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Avg cost</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Unrealized P&L</TableHead>
+                  <TableHead className="text-right">24h</TableHead>
+                  <TableHead className="text-right">Allocation</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holdings.map(holding => (
+                  <TableRow key={holding.symbol}>
+                    <TableCell className="font-medium">{holding.symbol}</TableCell>
+                    <TableCell className="text-right font-mono">{holding.quantity.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(holding.averageCost)}</TableCell>
+                    <TableCell className="text-right font-mono">{holding.market ? formatPrice(holding.market.current_price) : '—'}</TableCell>
+                    <TableCell className="text-right font-mono">{holding.value !== null ? formatPrice(holding.value) : '—'}</TableCell>
+                    <TableCell className={`text-right font-mono ${pnlClass(holding.unrealizedPnl)}`}>
+                      {formatSigned(holding.unrealizedPnl)}
+                      {holding.unrealizedPercent !== null && (
+                        <span className="ml-1 text-xs">({holding.unrealizedPercent.toFixed(1)}%)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${pnlClass(holding.change24h)}`}>{formatSigned(holding.change24h)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {holding.allocationPercent !== null ? `${holding.allocationPercent.toFixed(1)}%` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Lots</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="grid gap-2 md:grid-cols-5 md:items-end">
+              <FormField
+                control={form.control}
+                name="symbol"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Coin</FormLabel>
+                    <Select value={field.value} onValueChange={selectCoin}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Pick a coin" /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {coins.map(coin => (
+                          <SelectItem key={coin.id} value={coin.symbol.toUpperCase()}>
+                            {coin.symbol.toUpperCase()} · {coin.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantity</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price paid ($)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="any" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" max={today()} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit">
+                <Plus />
+                Add lot
+              </Button>
+            </form>
+          </Form>
+          <p className="text-xs text-muted-foreground">
+            CSV import: <code>symbol,quantity,price,date</code>, one lot per row.
+          </p>
+
+          {lots.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Coin</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...lots].sort((a, b) => b.date.localeCompare(a.date)).map(lot => (
+                  <TableRow key={lot.id}>
+                    <TableCell>{lot.date}</TableCell>
+                    <TableCell className="font-medium">{lot.symbol}</TableCell>
+                    <TableCell className="text-right font-mono">{lot.quantity.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(lot.price)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(lot.quantity * lot.price)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" aria-label="Delete lot" onClick={() => removeLot(lot.id)}>
+                        <Trash2 />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,378 @@
+import { useState, type ChangeEvent } from 'react'
+import { useFieldArray, useForm, type Control } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Check, ListPlus, Plus, RefreshCw, RotateCcw, Save, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CoinIcon } from '@/components/CoinIcon'
+import { MARKET_UNIVERSE_SIZES, useMarketUniverse } from '@/hooks/use-market-universe'
+import { useScreens } from '@/hooks/use-screens'
+import { useSettings } from '@/hooks/use-settings'
+import { useWatchlist } from '@/hooks/use-watchlist'
+import { formatFundingRate, formatPrice, formatVolume } from '@/lib/format'
+import type { MarketDataProvider } from '@/lib/providers'
+import {
+  DEFAULT_SCREEN_FILTER,
+  matchesScreen,
+  NEW_SCREEN_CONDITION,
+  SCREENER_FIELDS,
+  screenFilterSchema,
+  type ScreenFilter
+} from '@/lib/screener/screens'
+import { buildSignalInputs } from '@/lib/signals/engine'
+import { SIGNAL_FIELDS, SIGNAL_OPERATORS } from '@/lib/signals/rules'
+
+type FilterControl = Control<ScreenFilter>
+
+// Number inputs report NaN when empty; zod then flags them as invalid
+const numberField = (onChange: (value: number) => void) =>
+  (event: ChangeEvent<HTMLInputElement>) => onChange(event.target.valueAsNumber)
+
+function changeCell(value: number | null) {
+  if (value === null) return <span className="text-muted-foreground">—</span>
+  return (
+    <span className={value >= 0 ? 'text-green-500' : 'text-red-500'}>
+      {value >= 0 ? '+' : ''}{value.toFixed(2)}%
+    </span>
+  )
+}
+
+function CombinatorField({ control, name }: { control: FilterControl; name: 'combinator' | `groups.${number}.combinator` }) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="w-48">
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger aria-label="Match"><SelectValue /></SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value="and">Match all (AND)</SelectItem>
+              <SelectItem value="or">Match any (OR)</SelectItem>
+            </SelectContent>
+          </Select>
+        </FormItem>
+      )}
+    />
+  )
+}
+
+function GroupEditor({ control, groupIndex, onRemove }: { control: FilterControl; groupIndex: number; onRemove?: () => void }) {
+  const { fields, append, remove } = useFieldArray({ control, name: `groups.${groupIndex}.conditions` })
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <CombinatorField control={control} name={`groups.${groupIndex}.combinator`} />
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" aria-label="Remove group" onClick={onRemove}>
+            <Trash2 />
+          </Button>
+        )}
+      </div>
+
+      {fields.map((condition, index) => (
+        <div key={condition.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`groups.${groupIndex}.conditions.${index}.field`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger aria-label="Field"><SelectValue /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SCREENER_FIELDS.map(key => (
+                      <SelectItem key={key} value={key}>
+                        {SIGNAL_FIELDS[key].label}{SIGNAL_FIELDS[key].unit && ` (${SIGNAL_FIELDS[key].unit})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`groups.${groupIndex}.conditions.${index}.operator`}
+            render={({ field }) => (
+              <FormItem className="w-20">
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger aria-label="Operator"><SelectValue /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SIGNAL_OPERATORS.map(op => <SelectItem key={op} value={op}>{op}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`groups.${groupIndex}.conditions.${index}.value`}
+            render={({ field }) => (
+              <FormItem className="w-36">
+                <FormControl>
+                  <Input type="number" step="any" aria-label="Value" value={Number.isNaN(field.value) ? '' : field.value} onChange={numberField(field.onChange)} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" aria-label="Remove condition" onClick={() => remove(index)}>
+            <Trash2 />
+          </Button>
+        </div>
+      ))}
+      <FormField
+        control={control}
+        name={`groups.${groupIndex}.conditions`}
+        render={() => (
+          <FormItem>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <Button type="button" variant="outline" size="sm" onClick={() => append(NEW_SCREEN_CONDITION)}>
+        <Plus />
+        Condition
+      </Button>
+    </div>
+  )
+}
+
+interface ScreenerProps {
+  provider: MarketDataProvider
+}
+
+export function Screener({ provider }: ScreenerProps) {
+  const { settings } = useSettings()
+  const [size, setSize] = useState<number>(MARKET_UNIVERSE_SIZES[1])
+  const { markets, fundingRates, loading, error, loadedAt, reload } = useMarketUniverse(provider, settings.fundingExchange, size)
+  const { screens, saveScreen, removeScreen } = useScreens()
+  const { hasCoin, addCoin, addCoins } = useWatchlist()
+  const [screenName, setScreenName] = useState('')
+
+  const form = useForm<ScreenFilter>({
+    resolver: zodResolver(screenFilterSchema),
+    defaultValues: DEFAULT_SCREEN_FILTER,
+    mode: 'onChange'
+  })
+  const { fields: groups, append, remove } = useFieldArray({ control: form.control, name: 'groups' })
+
+  // Results follow the builder as it is edited; while a value is being typed
+  // and the filter doesn't parse, nothing matches
+  const parsed = screenFilterSchema.safeParse(form.watch())
+  const matches = parsed.success
+    ? markets.filter(crypto => matchesScreen(parsed.data, buildSignalInputs(crypto, fundingRates[crypto.symbol.toUpperCase()])))
+    : []
+  const unwatched = matches.filter(crypto => !hasCoin(crypto.symbol))
+
+  const loadScreen = (id: string) => {
+    const screen = screens.find(s => s.id === id)
+    if (!screen) return
+    form.reset(screen.filter)
+    setScreenName(screen.name)
+  }
+
+  const onSave = (values: ScreenFilter) => {
+    const name = screenName.trim()
+    if (!name) {
+      toast.error('Name the screen before saving it')
+      return
+    }
+    saveScreen(name, values)
+    toast.success(`Saved "${name}"`)
+  }
+
+  const addMatches = () => {
+    addCoins(unwatched.map(({ id, symbol, name, image }) => ({ id, symbol, name, image })))
+    toast.success(`Added ${unwatched.length} ${unwatched.length === 1 ? 'coin' : 'coins'} to the watchlist`)
+  }
+
+  const savedScreen = screens.find(screen => screen.name === screenName.trim())
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Screener</h2>
+          <p className="text-sm text-muted-foreground">
+            Filter the top {size} coins on {provider.name}
+            {loadedAt && ` · loaded ${loadedAt.toLocaleTimeString()}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(size)} onValueChange={(value) => setSize(Number(value))}>
+            <SelectTrigger className="w-32" aria-label="Universe size"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {MARKET_UNIVERSE_SIZES.map(n => <SelectItem key={n} value={String(n)}>Top {n}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={reload} disabled={loading}>
+            <RefreshCw className={loading ? 'animate-spin' : ''} />
+            Reload
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={savedScreen?.id ?? ''} onValueChange={loadScreen}>
+                  <SelectTrigger className="w-48" aria-label="Saved screens">
+                    <SelectValue placeholder={screens.length ? 'Load a screen' : 'No saved screens'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {screens.map(screen => <SelectItem key={screen.id} value={screen.id}>{screen.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-48"
+                  placeholder="Screen name"
+                  aria-label="Screen name"
+                  value={screenName}
+                  onChange={(e) => setScreenName(e.target.value)}
+                />
+                <Button type="submit" size="sm">
+                  <Save />
+                  {savedScreen ? 'Update' : 'Save'}
+                </Button>
+                {savedScreen && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete screen"
+                    onClick={() => {
+                      removeScreen(savedScreen.id)
+                      setScreenName('')
+                    }}
+                  >
+                    <Trash2 />
+                  </Button>
+                )}
+                <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={() => form.reset(DEFAULT_SCREEN_FILTER)}>
+                  <RotateCcw />
+                  Reset
+                </Button>
+              </div>
+
+              {groups.length > 1 && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  Groups:
+                  <CombinatorField control={form.control} name="combinator" />
+                </div>
+              )}
+
+              {groups.map((group, index) => (
+                <GroupEditor
+                  key={group.id}
+                  control={form.control}
+                  groupIndex={index}
+                  onRemove={groups.length > 1 ? () => remove(index) : undefined}
+                />
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append({ combinator: 'and', conditions: [NEW_SCREEN_CONDITION] })}
+              >
+                <Plus />
+                Group
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle className="text-lg">
+            {loading ? 'Loading markets...' : `${matches.length} of ${markets.length} coins match`}
+          </CardTitle>
+          <Button size="sm" onClick={addMatches} disabled={unwatched.length === 0}>
+            <ListPlus />
+            Add {unwatched.length || ''} to watchlist
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-500">Could not load markets: {error}</p>
+          ) : loading && markets.length === 0 ? (
+            <Skeleton className="h-64 w-full" />
+          ) : matches.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No coins match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Coin</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">24h</TableHead>
+                  <TableHead className="text-right">7d</TableHead>
+                  <TableHead className="text-right">Volume 24h</TableHead>
+                  <TableHead className="text-right">From ATH</TableHead>
+                  <TableHead className="text-right">Funding</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matches.map(crypto => {
+                  const funding = fundingRates[crypto.symbol.toUpperCase()]
+                  const watched = hasCoin(crypto.symbol)
+                  return (
+                    <TableRow key={crypto.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <CoinIcon image={crypto.image} name={crypto.name} symbol={crypto.symbol} className="h-6 w-6" />
+                          <span className="font-medium">{crypto.name}</span>
+                          <span className="text-xs uppercase text-muted-foreground">{crypto.symbol}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatPrice(crypto.current_price)}</TableCell>
+                      <TableCell className="text-right font-mono">{changeCell(crypto.price_change_percentage_24h)}</TableCell>
+                      <TableCell className="text-right font-mono">{changeCell(crypto.price_change_percentage_7d)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatVolume(crypto.total_volume)}</TableCell>
+                      <TableCell className="text-right font-mono">{changeCell(crypto.ath_change_percentage)}</TableCell>
+                      <TableCell className="text-right font-mono">{funding ? formatFundingRate(funding.rate) : '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={watched}
+                          aria-label={watched ? 'On watchlist' : 'Add to watchlist'}
+                          onClick={() => addCoin({ id: crypto.id, symbol: crypto.symbol, name: crypto.name, image: crypto.image })}
+                        >
+                          {watched ? <Check /> : <Plus />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { RefreshCw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { formatFundingRate, formatPrice } from '@/lib/format'
+import {
+  clearSignalRecords,
+  computeHitRates,
+  isHit,
+  listSignalRecords,
+  OUTCOME_HORIZONS,
+  type HitRateRow,
+  type OutcomeHorizon,
+  type SignalRecord
+} from '@/lib/signals/history'
+
+const HORIZONS = Object.keys(OUTCOME_HORIZONS) as OutcomeHorizon[]
+const RECENT_LIMIT = 100
+
+function formatReturn(value: number | null) {
+  if (value === null) return '—'
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+function HitRateTable({ title, rows }: { title: string; rows: HitRateRow[] }) {
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No BUY/SELL signals recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Signals</TableHead>
+                {HORIZONS.map(h => <TableHead key={h} className="text-right">{h} hit rate</TableHead>)}
+                {HORIZONS.map(h => <TableHead key={h} className="text-right">{h} avg</TableHead>)}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{row.signals}</TableCell>
+                  {HORIZONS.map(h => {
+                    const { hits, total } = row.hitRates[h]
+                    return (
+                      <TableCell key={h} className="text-right font-mono">
+                        {total ? `${((hits / total) * 100).toFixed(0)}%` : '—'}
+                        <span className="ml-1 text-xs text-muted-foreground">({hits}/{total})</span>
+                      </TableCell>
+                    )
+                  })}
+                  {HORIZONS.map(h => {
+                    const avg = row.avgReturns[h]
+                    return (
+                      <TableCell key={h} className={`text-right font-mono ${avg === null ? '' : avg >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                        {formatReturn(avg)}
+                      </TableCell>
+                    )
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function SignalHistory() {
+  const [records, setRecords] = useState<SignalRecord[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    try {
+      setRecords(await listSignalRecords())
+    } catch (error) {
+      console.error('Failed to load signal history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const byCoin = useMemo(() => computeHitRates(records, 'coin'), [records])
+  const byRule = useMemo(() => computeHitRates(records, 'rule'), [records])
+  const recent = useMemo(
+    () => [...records].sort((a, b) => b.timestamp - a.timestamp).slice(0, RECENT_LIMIT),
+    [records]
+  )
+
+  const clearHistory = async () => {
+    if (!window.confirm('Delete the entire signal history?')) return
+    await clearSignalRecords()
+    setRecords([])
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Signal History</h2>
+          <p className="text-sm text-muted-foreground">
+            Every signal change with forward returns. A hit means price moved the way the signal said.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={load}>
+            <RefreshCw />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={clearHistory} disabled={records.length === 0}>
+            <Trash2 />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <HitRateTable title="By coin" rows={byCoin} />
+      <HitRateTable title="By rule" rows={byRule} />
+
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="text-lg">Recent changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : recent.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Signal changes will appear here as they happen.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Coin</TableHead>
+                  <TableHead>Signal</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Funding</TableHead>
+                  <TableHead>Reasons</TableHead>
+                  {HORIZONS.map(h => <TableHead key={h} className="text-right">{h}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recent.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell className="whitespace-nowrap text-xs">{new Date(record.timestamp).toLocaleString()}</TableCell>
+                    <TableCell className="font-medium">{record.symbol}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <span className="text-muted-foreground">{record.previousAction ?? 'NONE'} → </span>
+                      <span className={record.action === 'BUY' ? 'text-green-500' : record.action === 'SELL' ? 'text-red-500' : ''}>
+                        {record.action ?? 'NONE'}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatPrice(record.price)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {record.fundingRate !== null ? formatFundingRate(record.fundingRate) : '—'}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {record.reasons.map(reason => reason.ruleName).join(', ') || '—'}
+                    </TableCell>
+                    {HORIZONS.map(h => {
+                      const outcome = record.outcomes[h]
+                      const hit = isHit(record, h)
+                      return (
+                        <TableCell key={h} className={`text-right font-mono ${hit === null ? '' : hit ? 'text-green-500' : 'text-red-500'}`}>
+                          {outcome ? formatReturn(outcome.returnPercent) : outcome === null ? 'n/a' : '…'}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+export interface CryptoData {
+  id: string
+  name: string
+  symbol: string
+  current_price: number
+  price_change_percentage_24h: number
+  price_change_percentage_7d: number | null
+  total_volume: number
+  image: string
+  high_24h: number
+  low_24h: number
+  ath: number | null
+  ath_change_percentage: number | null
+  circulating_supply: number | null
+  funding_rate?: number
+  provenance: DataProvenance
+}
+
+// Where a coin's numbers came from, so old or made-up data is never shown
+// as live
+export interface DataProvenance {
+  // Provider or feed name, e.g. "CoinGecko" or "Binance stream"
+  source: string
+  // Epoch milliseconds the data was fetched, not when it was last polled
+  fetchedAt: number
+  // Sample prices from the demo provider rather than a market
+  isFallback: boolean
+  // Loaded from the offline snapshot rather than fetched this session
+  restored?: boolean
+}
+
+export interface FundingRateData {
+  [symbol: string]: FundingRate
+}
+
+export interface FundingRate {
+  exchange: string
+  // Rate for the current interval as a fraction (0.0001 = 0.01%)
+  rate: number
+  // Epoch milliseconds of the next settlement, if the exchange reports it
+  nextFundingTime: number | null
+  intervalHours: number
+}
+
+export type CandleInterval = '1h' | '4h' | '1d' | '1w'
+
+export interface Candle {
+  // Open time, epoch milliseconds
+  time: number
+  open: number
+  high: number
+  low: number
+  close: number
+  // Quote (USD) volume
+  volume: number
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Override the ticker WebSocket, e.g. to point at a local stand-in server
+  readonly VITE_TICKER_STREAM_URL?: string
+}